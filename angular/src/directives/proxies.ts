@@ -6,19 +6,25 @@ import { ProxyCmp, proxyOutputs } from './proxies-utils';
 import { Components } from '@ionic-super-tabs/core'
 
 export declare interface SuperTab extends Components.SuperTab {}
-@ProxyCmp({inputs: ['noScroll'], 'methods': ['getRootScrollableEl']})
-@Component({ selector: 'super-tab', changeDetection: ChangeDetectionStrategy.OnPush, template: '<ng-content></ng-content>', inputs: ['noScroll'] })
+@ProxyCmp({inputs: ['canEnter', 'canLeave', 'keepAlive', 'loaded', 'noScroll', 'preload', 'tabId', 'visible'], 'methods': ['getRootScrollableEl', 'getScrollState', 'setScrollState']})
+@Component({ selector: 'super-tab', changeDetection: ChangeDetectionStrategy.OnPush, template: '<ng-content></ng-content>', inputs: ['canEnter', 'canLeave', 'keepAlive', 'loaded', 'noScroll', 'preload', 'tabId', 'visible'] })
 export class SuperTab {
+  tabWillEnter!: EventEmitter<CustomEvent>;
+  tabDidEnter!: EventEmitter<CustomEvent>;
+  tabWillLeave!: EventEmitter<CustomEvent>;
+  tabDidLeave!: EventEmitter<CustomEvent>;
+  tabWillUnload!: EventEmitter<CustomEvent>;
   protected el: HTMLElement;
   constructor(c: ChangeDetectorRef, r: ElementRef, protected z: NgZone) {
     c.detach();
     this.el = r.nativeElement;
+    proxyOutputs(this, this.el, ['tabWillEnter', 'tabDidEnter', 'tabWillLeave', 'tabDidLeave', 'tabWillUnload']);
   }
 }
 
 export declare interface SuperTabButton extends Components.SuperTabButton {}
-@ProxyCmp({inputs: ['disabled']})
-@Component({ selector: 'super-tab-button', changeDetection: ChangeDetectionStrategy.OnPush, template: '<ng-content></ng-content>', inputs: ['disabled'] })
+@ProxyCmp({inputs: ['disabled', 'tabId']})
+@Component({ selector: 'super-tab-button', changeDetection: ChangeDetectionStrategy.OnPush, template: '<ng-content></ng-content>', inputs: ['disabled', 'tabId'] })
 export class SuperTabButton {
   protected el: HTMLElement;
   constructor(c: ChangeDetectorRef, r: ElementRef, protected z: NgZone) {
@@ -28,15 +34,16 @@ export class SuperTabButton {
 }
 
 export declare interface SuperTabs extends Components.SuperTabs {}
-@ProxyCmp({inputs: ['activeTabIndex', 'config'], 'methods': ['setConfig', 'selectTab']})
-@Component({ selector: 'super-tabs', changeDetection: ChangeDetectionStrategy.OnPush, template: '<ng-content></ng-content>', inputs: ['activeTabIndex', 'config'] })
+@ProxyCmp({inputs: ['activeTabId', 'activeTabIndex', 'config', 'items', 'persistKey'], 'methods': ['setConfig', 'selectTab', 'selectTabById']})
+@Component({ selector: 'super-tabs', changeDetection: ChangeDetectionStrategy.OnPush, template: '<ng-content></ng-content>', inputs: ['activeTabId', 'activeTabIndex', 'config', 'items', 'persistKey'] })
 export class SuperTabs {
   tabChange!: EventEmitter<CustomEvent>;
+  beforeTabChange!: EventEmitter<CustomEvent>;
   protected el: HTMLElement;
   constructor(c: ChangeDetectorRef, r: ElementRef, protected z: NgZone) {
     c.detach();
     this.el = r.nativeElement;
-    proxyOutputs(this, this.el, ['tabChange']);
+    proxyOutputs(this, this.el, ['tabChange', 'beforeTabChange']);
   }
 }
 
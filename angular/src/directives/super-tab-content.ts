@@ -0,0 +1,55 @@
+import { Directive, OnDestroy, OnInit, TemplateRef, ViewContainerRef } from '@angular/core';
+
+/**
+ * Renders the content of a `super-tab` only while the tab is loaded.
+ *
+ * With `lazyLoad` enabled, the components inside the template are created when the tab is about to be shown, and
+ * destroyed again when the tab is unloaded.
+ *
+ * ```html
+ * <super-tab>
+ *   <feed-page *superTabContent></feed-page>
+ * </super-tab>
+ * ```
+ */
+@Directive({ selector: '[superTabContent]' })
+export class SuperTabContentDirective implements OnInit, OnDestroy {
+  private observer?: MutationObserver;
+  private tab?: HTMLElement;
+
+  constructor(private template: TemplateRef<any>, private viewContainer: ViewContainerRef) {
+  }
+
+  ngOnInit() {
+    const anchor: Node = this.viewContainer.element.nativeElement;
+    this.tab = anchor.parentElement ? anchor.parentElement.closest('super-tab') as HTMLElement : undefined;
+
+    if (!this.tab) {
+      // not inside a tab, there is nothing to wait for
+      this.render(true);
+      return;
+    }
+
+    this.observer = new MutationObserver(() => this.render(this.isLoaded()));
+    this.observer.observe(this.tab, { attributes: true, attributeFilter: ['loaded'] });
+    this.render(this.isLoaded());
+  }
+
+  ngOnDestroy() {
+    if (this.observer) {
+      this.observer.disconnect();
+    }
+  }
+
+  private isLoaded(): boolean {
+    return !!this.tab && this.tab.hasAttribute('loaded');
+  }
+
+  private render(loaded: boolean) {
+    if (loaded && this.viewContainer.length === 0) {
+      this.viewContainer.createEmbeddedView(this.template);
+    } else if (!loaded && this.viewContainer.length > 0) {
+      this.viewContainer.clear();
+    }
+  }
+}
@@ -1,2 +1,13 @@
 export * from './directives/proxies';
 export { SuperTabsModule } from './super-tabs.module';
+export { SuperTabContentDirective } from './directives/super-tab-content';
+export { SuperTabOutletDirective } from './router/super-tab-outlet';
+export { SuperTabsRouterDirective } from './router/super-tabs-router';
+export { SuperTabsRouterModule } from './router/super-tabs-router.module';
+export {
+  SuperTabBeforeChangeEventDetail,
+  SuperTabChangeEventDetail,
+  SuperTabChangeSource,
+  SuperTabItem,
+  SuperTabsConfig,
+} from '@ionic-super-tabs/core';
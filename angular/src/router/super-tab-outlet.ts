@@ -0,0 +1,56 @@
+import { Directive, OnDestroy, OnInit, ViewContainerRef } from '@angular/core';
+import { SuperTabsRouterDirective } from './super-tabs-router';
+
+/**
+ * Marks where a `super-tab` renders the component of its route, when the `super-tabs` element uses
+ * `superTabsRouter`.
+ *
+ * ```html
+ * <super-tab tabId="feed">
+ *   <ng-container superTabOutlet></ng-container>
+ * </super-tab>
+ * ```
+ */
+@Directive({ selector: '[superTabOutlet]' })
+export class SuperTabOutletDirective implements OnInit, OnDestroy {
+  tab?: HTMLSuperTabElement;
+  private observer?: MutationObserver;
+
+  constructor(readonly location: ViewContainerRef, private tabsRouter: SuperTabsRouterDirective) {
+  }
+
+  get tabId(): string | undefined {
+    return this.tab ? this.tab.tabId : undefined;
+  }
+
+  ngOnInit() {
+    const anchor: Node = this.location.element.nativeElement;
+    const tab = anchor.parentElement ? anchor.parentElement.closest('super-tab') : null;
+
+    if (!tab) {
+      throw new Error('superTabOutlet must be placed inside a super-tab element');
+    }
+
+    this.tab = tab;
+    this.observer = new MutationObserver(() => {
+      if (!this.isLoaded()) {
+        this.tabsRouter.onTabUnloaded(this);
+      }
+    });
+    this.observer.observe(tab, { attributes: true, attributeFilter: ['loaded'] });
+
+    this.tabsRouter.addOutlet(this);
+  }
+
+  ngOnDestroy() {
+    if (this.observer) {
+      this.observer.disconnect();
+    }
+
+    this.tabsRouter.removeOutlet(this);
+  }
+
+  isLoaded(): boolean {
+    return !!this.tab && this.tab.hasAttribute('loaded');
+  }
+}
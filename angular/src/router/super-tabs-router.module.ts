@@ -0,0 +1,12 @@
+import { NgModule } from '@angular/core';
+import { RouterModule } from '@angular/router';
+import { SuperTabOutletDirective } from './super-tab-outlet';
+import { SuperTabsRouterDirective } from './super-tabs-router';
+
+@NgModule({
+  declarations: [SuperTabsRouterDirective, SuperTabOutletDirective],
+  exports: [SuperTabsRouterDirective, SuperTabOutletDirective],
+  imports: [RouterModule],
+})
+export class SuperTabsRouterModule {
+}
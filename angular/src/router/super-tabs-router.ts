@@ -0,0 +1,364 @@
+import {
+  ChangeDetectorRef,
+  ComponentFactoryResolver,
+  ComponentRef,
+  Directive,
+  ElementRef,
+  Injector,
+  NgZone,
+  OnDestroy,
+  OnInit,
+} from '@angular/core';
+import {
+  ActivatedRoute,
+  ChildrenOutletContexts,
+  Data,
+  NavigationEnd,
+  PRIMARY_OUTLET,
+  Router,
+  RouterOutlet,
+} from '@angular/router';
+import { SuperTabChangeEventDetail } from '@ionic-super-tabs/core';
+import { Subscription } from 'rxjs';
+import { filter } from 'rxjs/operators';
+import { SuperTabOutletDirective } from './super-tab-outlet';
+
+interface TabView {
+  ref: ComponentRef<any>;
+  route: ActivatedRoute;
+}
+
+/**
+ * Keeps the active tab of a `super-tabs` element in sync with the router.
+ *
+ * Every tab maps to a child route of the route that renders the `super-tabs` element, where the path of the child
+ * route is the `tabId` of the tab. Selecting a tab navigates to its route, and navigating to a route, e.g. with a deep
+ * link or the browser back and forward buttons, selects its tab. When a route guard cancels the navigation, the
+ * previous tab is selected again.
+ *
+ * Tabs with a `superTabOutlet` render the component of their route, which can also be lazy loaded with
+ * `loadChildren`. The component, and the lazy loaded module, are only created once the tab is navigated to. The
+ * component is kept while the tab stays loaded, so going back to the tab shows it as it was left, and it is destroyed
+ * when the tab is unloaded. Tabs without an outlet can use a componentless route, e.g. `{ path: 'feed', children: [] }`,
+ * and named outlets can be placed in a tab with `*superTabContent`, so they are created when the tab is loaded.
+ *
+ * ```ts
+ * const routes: Routes = [{
+ *   path: 'tabs',
+ *   component: TabsPage,
+ *   children: [
+ *     { path: 'feed', loadChildren: () => import('./feed/feed.module').then((m) => m.FeedModule) },
+ *     { path: 'profile', component: ProfilePage, canActivate: [AuthGuard] },
+ *   ],
+ * }];
+ * ```
+ *
+ * ```html
+ * <super-tabs superTabsRouter>
+ *   ...
+ *   <super-tabs-container>
+ *     <super-tab tabId="feed"><ng-container superTabOutlet></ng-container></super-tab>
+ *     <super-tab tabId="profile"><ng-container superTabOutlet></ng-container></super-tab>
+ *   </super-tabs-container>
+ * </super-tabs>
+ * ```
+ */
+@Directive({ selector: 'super-tabs[superTabsRouter]' })
+export class SuperTabsRouterDirective implements OnInit, OnDestroy {
+  private subscription?: Subscription;
+  private readonly el: HTMLSuperTabsElement;
+  private outlets: SuperTabOutletDirective[] = [];
+  private views: Map<string, TabView> = new Map();
+  private activeRoute: ActivatedRoute | null = null;
+  private activeResolver: ComponentFactoryResolver | null = null;
+  private readonly onTabChange = (ev: Event) => this.handleTabChange((ev as CustomEvent<SuperTabChangeEventDetail>).detail);
+
+  constructor(r: ElementRef,
+              private router: Router,
+              private route: ActivatedRoute,
+              private zone: NgZone,
+              private parentContexts: ChildrenOutletContexts,
+              private resolver: ComponentFactoryResolver,
+              private changeDetector: ChangeDetectorRef) {
+    this.el = r.nativeElement;
+  }
+
+  ngOnInit() {
+    const tabId = this.getRouteTabId();
+
+    if (tabId) {
+      // deep link, start on the tab of the current URL
+      this.el.activeTabId = tabId;
+    }
+
+    this.el.addEventListener('tabChange', this.onTabChange);
+
+    this.subscription = this.router.events
+      .pipe(filter((ev) => ev instanceof NavigationEnd))
+      .subscribe(() => this.selectRouteTab());
+
+    this.initRoute();
+  }
+
+  ngOnDestroy() {
+    this.el.removeEventListener('tabChange', this.onTabChange);
+
+    if (this.subscription) {
+      this.subscription.unsubscribe();
+    }
+
+    if (this.outlets.length > 0) {
+      this.parentContexts.onChildOutletDestroyed(PRIMARY_OUTLET);
+    }
+  }
+
+  /*
+   * The directive acts as the router outlet of the child routes, and renders the component of the active route in
+   * the outlet of its tab. The router calls the members below, they mirror the ones of `RouterOutlet`.
+   */
+
+  get isActivated(): boolean {
+    return !!this.activeRoute;
+  }
+
+  get component(): object {
+    const view = this.activeRoute && this.views.get(this.getTabId(this.activeRoute));
+
+    if (!view) {
+      throw new Error('Outlet is not activated');
+    }
+
+    return view.ref.instance;
+  }
+
+  get activatedRoute(): ActivatedRoute {
+    if (!this.activeRoute) {
+      throw new Error('Outlet is not activated');
+    }
+
+    return this.activeRoute;
+  }
+
+  get activatedRouteData(): Data {
+    return this.activeRoute ? this.activeRoute.snapshot.data : {};
+  }
+
+  activateWith(activatedRoute: ActivatedRoute, resolver: ComponentFactoryResolver | null) {
+    if (this.activeRoute) {
+      throw new Error('Cannot activate an already activated outlet');
+    }
+
+    this.activeRoute = activatedRoute;
+    this.activeResolver = resolver;
+    this.renderActiveRoute();
+  }
+
+  deactivate() {
+    const route = this.activeRoute;
+    this.activeRoute = null;
+
+    if (!route) {
+      return;
+    }
+
+    // the component stays while its tab is loaded
+    const tabId = this.getTabId(route);
+    const outlet = this.getOutlet(tabId);
+
+    if (!outlet || !outlet.isLoaded()) {
+      this.destroyView(tabId);
+    }
+  }
+
+  detach(): ComponentRef<any> {
+    const tabId = this.activeRoute ? this.getTabId(this.activeRoute) : '';
+    const view = this.views.get(tabId);
+    const outlet = this.getOutlet(tabId);
+
+    if (!view || !outlet) {
+      throw new Error('Outlet is not activated');
+    }
+
+    outlet.location.detach(outlet.location.indexOf(view.ref.hostView));
+    this.views.delete(tabId);
+    this.activeRoute = null;
+
+    return view.ref;
+  }
+
+  attach(ref: ComponentRef<any>, activatedRoute: ActivatedRoute) {
+    const tabId = this.getTabId(activatedRoute);
+    const outlet = this.getOutlet(tabId);
+
+    this.activeRoute = activatedRoute;
+    this.destroyView(tabId);
+    this.views.set(tabId, { ref, route: activatedRoute });
+
+    if (outlet) {
+      outlet.location.insert(ref.hostView);
+    }
+  }
+
+  /** @internal */
+  addOutlet(outlet: SuperTabOutletDirective) {
+    if (this.outlets.length === 0) {
+      // the tab outlets take over the child routes, the same way a `router-outlet` registers itself
+      this.parentContexts.onChildOutletCreated(PRIMARY_OUTLET, this as unknown as RouterOutlet);
+    }
+
+    this.outlets.push(outlet);
+
+    if (this.activeRoute) {
+      this.renderActiveRoute();
+      return;
+    }
+
+    // the route may have been activated before the outlets were created
+    const context = this.parentContexts.getContext(PRIMARY_OUTLET);
+
+    if (context && context.route) {
+      this.activateWith(context.route, context.resolver);
+    }
+  }
+
+  /** @internal */
+  removeOutlet(outlet: SuperTabOutletDirective) {
+    this.outlets = this.outlets.filter((o) => o !== outlet);
+
+    this.views.forEach((view, tabId) => {
+      if (!this.getOutlet(tabId)) {
+        view.ref.destroy();
+        this.views.delete(tabId);
+      }
+    });
+  }
+
+  /** @internal */
+  onTabUnloaded(outlet: SuperTabOutletDirective) {
+    const tabId = outlet.tabId;
+
+    if (tabId && (!this.activeRoute || this.getTabId(this.activeRoute) !== tabId)) {
+      this.destroyView(tabId);
+    }
+  }
+
+  /**
+   * Creates the component of the active route in the outlet of its tab, unless it is still there from a previous visit.
+   */
+  private renderActiveRoute() {
+    const route = this.activeRoute;
+
+    if (!route || !route.routeConfig || !route.routeConfig.component) {
+      return;
+    }
+
+    const tabId = this.getTabId(route);
+    const outlet = this.getOutlet(tabId);
+
+    if (!outlet) {
+      // the component is created once the outlet of the tab is
+      return;
+    }
+
+    const view = this.views.get(tabId);
+
+    if (view && view.route.routeConfig === route.routeConfig &&
+      JSON.stringify(view.route.snapshot.params) === JSON.stringify(route.snapshot.params)) {
+      return;
+    }
+
+    this.destroyView(tabId);
+
+    const factory = (this.activeResolver || this.resolver).resolveComponentFactory(route.routeConfig.component);
+    const injector = Injector.create({
+      providers: [
+        { provide: ActivatedRoute, useValue: route },
+        { provide: ChildrenOutletContexts, useValue: this.parentContexts.getOrCreateContext(PRIMARY_OUTLET).children },
+      ],
+      parent: outlet.location.injector,
+    });
+
+    const ref = outlet.location.createComponent(factory, outlet.location.length, injector);
+    this.views.set(tabId, { ref, route });
+
+    // make sure the component is checked when the host component uses `ChangeDetectionStrategy.OnPush`
+    this.changeDetector.markForCheck();
+  }
+
+  private destroyView(tabId: string) {
+    const view = this.views.get(tabId);
+
+    if (view) {
+      view.ref.destroy();
+      this.views.delete(tabId);
+    }
+  }
+
+  private getOutlet(tabId: string): SuperTabOutletDirective | undefined {
+    return this.outlets.find((o) => o.tabId === tabId);
+  }
+
+  /**
+   * Returns the `tabId` of the tab that a route belongs to, which is the path of its ancestor that is a child route of
+   * the `super-tabs` route.
+   */
+  private getTabId(route: ActivatedRoute): string {
+    const path = route.pathFromRoot;
+    const tabRoute = path[path.indexOf(this.route) + 1];
+
+    return tabRoute && tabRoute.routeConfig && tabRoute.routeConfig.path || '';
+  }
+
+  /**
+   * Makes sure the URL points to the active tab, if it doesn't point to any tab yet.
+   */
+  private async initRoute() {
+    await this.el.componentOnReady();
+
+    if (!this.getRouteTabId() && this.el.activeTabId) {
+      this.navigate(this.el.activeTabId, true);
+    }
+  }
+
+  /**
+   * Returns the `tabId` of the tab that matches the active child route.
+   */
+  private getRouteTabId(): string | undefined {
+    const child = this.route.firstChild;
+    return child && child.routeConfig && child.routeConfig.path || undefined;
+  }
+
+  private async selectRouteTab() {
+    const tabId = this.getRouteTabId();
+
+    if (!tabId || tabId === this.el.activeTabId) {
+      return;
+    }
+
+    await this.el.selectTabById(tabId, true, false);
+
+    if (this.el.activeTabId !== tabId && this.el.activeTabId) {
+      // the tab guards kept the current tab, point the URL back to it
+      this.navigate(this.el.activeTabId, true);
+    }
+  }
+
+  private handleTabChange(detail: SuperTabChangeEventDetail) {
+    if (!detail.changed || !detail.tabId || detail.tabId === this.getRouteTabId()) {
+      return;
+    }
+
+    this.navigate(detail.tabId, false).then((navigated) => {
+      if (!navigated && typeof detail.previousIndex === 'number') {
+        // a route guard cancelled the navigation
+        this.el.selectTab(detail.previousIndex, true, false);
+      }
+    });
+  }
+
+  private navigate(tabId: string, replaceUrl: boolean): Promise<boolean> {
+    // events from the web components are emitted outside of the Angular zone
+    return this.zone.run(() => this.router.navigate([tabId], { relativeTo: this.route, replaceUrl }))
+      .catch(() => false);
+  }
+}
@@ -2,6 +2,7 @@ import { CommonModule, DOCUMENT } from '@angular/common';
 import { APP_INITIALIZER, ModuleWithProviders, NgModule, NgZone } from '@angular/core';
 import { appInit } from './app-init';
 import { SuperTab, SuperTabButton, SuperTabs, SuperTabsContainer, SuperTabsToolbar } from './directives/proxies';
+import { SuperTabContentDirective } from './directives/super-tab-content';
 
 export const DECLARATIONS = [
   SuperTab,
@@ -9,6 +10,7 @@ export const DECLARATIONS = [
   SuperTabs,
   SuperTabsContainer,
   SuperTabsToolbar,
+  SuperTabContentDirective,
 ];
 
 @NgModule({
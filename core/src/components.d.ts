@@ -5,36 +5,79 @@
  * It contains typing information for all components that exist in this project.
  */
 import { HTMLStencilElement, JSXBase } from "@stencil/core/internal";
-import { SuperTabChangeEventDetail, SuperTabsConfig } from "./interface";
+import { SuperTabBeforeChangeEventDetail, SuperTabChangeEventDetail, SuperTabGuard, SuperTabItem, SuperTabLifecycleEvent, SuperTabPreload, SuperTabsConfig, SuperTabScrollState } from "./interface";
 export namespace Components {
     interface SuperTab {
+        "active"?: boolean;
+        /**
+          * Guard that runs before this tab becomes active.  Return `false`, or a promise that resolves to `false`, to prevent the tab change.
+         */
+        "canEnter"?: SuperTabGuard;
+        /**
+          * Guard that runs before another tab becomes active while this tab is active.  Return `false`, or a promise that resolves to `false`, to keep this tab active. This is useful to prevent users from leaving a tab with unsaved changes.
+         */
+        "canLeave"?: SuperTabGuard;
+        "emitLifecycleEvent": (event: SuperTabLifecycleEvent) => Promise<void>;
         /**
           * Returns the root scrollable element
          */
         "getRootScrollableEl": () => Promise<HTMLElement | null>;
+        /**
+          * Returns the scroll offsets of the root scrollable element. If the tab is not loaded, the offsets it had when it was unloaded are returned.
+         */
+        "getScrollState": () => Promise<SuperTabScrollState | undefined>;
+        /**
+          * Set this to true to keep this tab loaded once it was loaded, even when `unloadWhenInvisible` is enabled.
+         */
+        "keepAlive": boolean;
+        "labelledBy"?: string;
         "loaded": boolean;
         /**
           * Set this to true to prevent vertical scrolling of this tab. Defaults to `false`.  This property will automatically be set to true if there is a direct child element of `ion-content`. To override this behaviour make sure to explicitly set this property to `false`.
          */
         "noScroll": boolean;
+        /**
+          * How this tab is loaded when lazy loading is enabled.  `eager` tabs are loaded right away and never unloaded, `lazy` tabs are loaded when they are close to the active tab or when the browser is idle, and `never` tabs are only loaded once they become the active tab.  Defaults to `lazy`.
+         */
+        "preload": SuperTabPreload;
+        /**
+          * Sets the scroll offsets of the root scrollable element. If the tab is not loaded, the offsets are applied once it is.
+          * @param state offsets returned by `getScrollState`
+         */
+        "setScrollState": (state: SuperTabScrollState) => Promise<void>;
+        /**
+          * Stable identifier of this tab.  Tabs with an id can be selected with `selectTabById`, and stay selected when tabs are added, removed or reordered.
+         */
+        "tabId"?: string;
         "visible": boolean;
     }
     interface SuperTabButton {
         "active"?: boolean;
+        "controls"?: string;
         /**
           * Whether the button is disabled
          */
         "disabled"?: boolean;
+        "focusTarget": boolean;
         "index"?: number;
         "scrollableContainer": boolean;
+        /**
+          * The `tabId` of the tab this button selects.  If set, clicking the button selects the `super-tab` with the same `tabId` instead of the tab at the same index.
+         */
+        "tabId"?: string;
     }
     interface SuperTabIndicator {
         /**
           * Toolbar position This determines the position of the indicator
          */
-        "toolbarPosition": 'top' | 'bottom';
+        "toolbarPosition": 'top' | 'bottom' | 'left' | 'right';
     }
     interface SuperTabs {
+        /**
+          * Initial active tab id.  If set, this takes precedence over `activeTabIndex`. This property is kept up to date with the `tabId` of the active tab, and is `undefined` when the active tab has no `tabId`.
+          * @type {string}
+         */
+        "activeTabId"?: string;
         /**
           * Initial active tab index. Defaults to `0`.
           * @type {number}
@@ -46,12 +89,29 @@ export namespace Components {
          */
         "config"?: SuperTabsConfig;
         /**
-          * Set the selected tab. This will move the container and the toolbar to the selected tab.
+          * Tabs to generate.  For every item, a `super-tab-button` is added to the toolbar and a `super-tab` is added to the container. The toolbar and the container are created if they don't exist yet. The generated elements are updated in place when a new array is passed, so tabs that are kept, moved or renamed keep their state.
+          * @type {SuperTabItem[]}
+         */
+        "items"?: SuperTabItem[];
+        /**
+          * Key to save the active tab under, so it is restored when the page is loaded again.  The storage is set with the `persistStorage` configuration option, and the scroll offsets of the tabs are saved as well when `persistScroll` is enabled. The saved tab takes precedence over `activeTabIndex` and `activeTabId`.
+          * @type {string}
+         */
+        "persistKey"?: string;
+        /**
+          * Set the selected tab. This will move the container and the toolbar to the selected tab. Resolves when the transition is done, or when it was interrupted by another tab change or a swipe.
           * @param index the index of the tab you want to select
           * @param animate whether you want to animate the transition
           * @param emit whether you want to emit tab change event
          */
         "selectTab": (index: number, animate?: boolean, emit?: boolean) => Promise<void>;
+        /**
+          * Set the selected tab by its `tabId`. This will move the container and the toolbar to the selected tab.
+          * @param tabId the `tabId` of the tab you want to select
+          * @param animate whether you want to animate the transition
+          * @param emit whether you want to emit tab change event
+         */
+        "selectTabById": (tabId: string, animate?: boolean, emit?: boolean) => Promise<void>;
         /**
           * Set/update the configuration
           * @param config Configuration object
@@ -156,29 +216,82 @@ declare global {
 }
 declare namespace LocalJSX {
     interface SuperTab {
+        "active"?: boolean;
+        /**
+          * Guard that runs before this tab becomes active.  Return `false`, or a promise that resolves to `false`, to prevent the tab change.
+         */
+        "canEnter"?: SuperTabGuard;
+        /**
+          * Guard that runs before another tab becomes active while this tab is active.  Return `false`, or a promise that resolves to `false`, to keep this tab active. This is useful to prevent users from leaving a tab with unsaved changes.
+         */
+        "canLeave"?: SuperTabGuard;
+        /**
+          * Set this to true to keep this tab loaded once it was loaded, even when `unloadWhenInvisible` is enabled.
+         */
+        "keepAlive"?: boolean;
+        "labelledBy"?: string;
         "loaded"?: boolean;
         /**
           * Set this to true to prevent vertical scrolling of this tab. Defaults to `false`.  This property will automatically be set to true if there is a direct child element of `ion-content`. To override this behaviour make sure to explicitly set this property to `false`.
          */
         "noScroll": boolean;
+        /**
+          * Emitted when this tab became the active tab and the transition is done.
+         */
+        "onTabDidEnter"?: (event: CustomEvent<void>) => void;
+        /**
+          * Emitted when this tab is no longer the active tab and the transition is done.
+         */
+        "onTabDidLeave"?: (event: CustomEvent<void>) => void;
+        /**
+          * Emitted when this tab is about to become the active tab.
+         */
+        "onTabWillEnter"?: (event: CustomEvent<void>) => void;
+        /**
+          * Emitted when this tab is about to stop being the active tab.
+         */
+        "onTabWillLeave"?: (event: CustomEvent<void>) => void;
+        /**
+          * Emitted when this tab is about to be unloaded to save memory. Its content will be removed from the DOM, so this is the last chance to save its state.
+         */
+        "onTabWillUnload"?: (event: CustomEvent<void>) => void;
+        /**
+          * How this tab is loaded when lazy loading is enabled.  `eager` tabs are loaded right away and never unloaded, `lazy` tabs are loaded when they are close to the active tab or when the browser is idle, and `never` tabs are only loaded once they become the active tab.  Defaults to `lazy`.
+         */
+        "preload"?: SuperTabPreload;
+        /**
+          * Stable identifier of this tab.  Tabs with an id can be selected with `selectTabById`, and stay selected when tabs are added, removed or reordered.
+         */
+        "tabId"?: string;
         "visible"?: boolean;
     }
     interface SuperTabButton {
         "active"?: boolean;
+        "controls"?: string;
         /**
           * Whether the button is disabled
          */
         "disabled"?: boolean;
+        "focusTarget"?: boolean;
         "index"?: number;
         "scrollableContainer"?: boolean;
+        /**
+          * The `tabId` of the tab this button selects.  If set, clicking the button selects the `super-tab` with the same `tabId` instead of the tab at the same index.
+         */
+        "tabId"?: string;
     }
     interface SuperTabIndicator {
         /**
           * Toolbar position This determines the position of the indicator
          */
-        "toolbarPosition"?: 'top' | 'bottom';
+        "toolbarPosition"?: 'top' | 'bottom' | 'left' | 'right';
     }
     interface SuperTabs {
+        /**
+          * Initial active tab id.  If set, this takes precedence over `activeTabIndex`. This property is kept up to date with the `tabId` of the active tab, and is `undefined` when the active tab has no `tabId`.
+          * @type {string}
+         */
+        "activeTabId"?: string;
         /**
           * Initial active tab index. Defaults to `0`.
           * @type {number}
@@ -189,10 +302,24 @@ declare namespace LocalJSX {
           * @type {SuperTabsConfig}
          */
         "config"?: SuperTabsConfig;
+        /**
+          * Tabs to generate.  For every item, a `super-tab-button` is added to the toolbar and a `super-tab` is added to the container. The toolbar and the container are created if they don't exist yet. The generated elements are updated in place when a new array is passed, so tabs that are kept, moved or renamed keep their state.
+          * @type {SuperTabItem[]}
+         */
+        "items"?: SuperTabItem[];
+        /**
+          * Before tab change event.  This event fires up before the active tab changes, regardless of whether the change was triggered by a swipe, a tab button click or a call to `selectTab`.  Calling `preventDefault()` on this event will cancel the change and move the container and the toolbar back to the current tab.
+         */
+        "onBeforeTabChange"?: (event: CustomEvent<SuperTabBeforeChangeEventDetail>) => void;
         /**
           * Tab change event.  This event fires up when a tab button is clicked, or when a user swipes between tabs.  The event will fire even if the tab did not change, you can check if the tab changed by checking the `changed` property in the event detail.
          */
         "onTabChange"?: (event: CustomEvent<SuperTabChangeEventDetail>) => void;
+        /**
+          * Key to save the active tab under, so it is restored when the page is loaded again.  The storage is set with the `persistStorage` configuration option, and the scroll offsets of the tabs are saved as well when `persistScroll` is enabled. The saved tab takes precedence over `activeTabIndex` and `activeTabId`.
+          * @type {string}
+         */
+        "persistKey"?: string;
     }
     interface SuperTabsContainer {
         /**
@@ -201,7 +328,7 @@ declare namespace LocalJSX {
         "autoScrollTop"?: boolean;
         "config"?: SuperTabsConfig;
         /**
-          * Emits an event when the active tab changes. An active tab is the tab that the user looking at.  This event emitter will not notify you if the user has changed the current active tab. If you need that information, you should use the `tabChange` event emitted by the `super-tabs` element.
+          * Emits an event when the user swipes to a tab, or when the active tab moved to a new index. An active tab is the tab that the user looking at. A swiped to tab only becomes active once the `super-tabs` element accepted the change.  This event emitter will not notify you if the user has changed the current active tab. If you need that information, you should use the `tabChange` event emitted by the `super-tabs` element.
          */
         "onActiveTabIndexChange"?: (event: CustomEvent<number>) => void;
         /**
@@ -0,0 +1,127 @@
+import { SuperTabsTransitionContext, SuperTabsTransitionEffect } from './interface';
+
+
+/**
+ * Returns a translate transform that moves an element along the swipe axis.
+ * The offset is measured towards the end edge, which is the left edge in right-to-left layouts.
+ */
+function translate(ctx: SuperTabsTransitionContext, offset: number): string {
+  if (ctx.vertical) {
+    return `translate3d(0, ${offset}px, 0)`;
+  }
+
+  return `translate3d(${ctx.rtl ? -offset : offset}px, 0, 0)`;
+}
+
+/**
+ * Returns a translate transform that keeps the tab in place, cancelling out the container scroll position.
+ */
+function pin(ctx: SuperTabsTransitionContext, progress: number): string {
+  return translate(ctx, -progress * ctx.size);
+}
+
+function resetStyle(tab: HTMLSuperTabElement) {
+  tab.style.transform = '';
+  tab.style.transformOrigin = '';
+  tab.style.opacity = '';
+  tab.style.zIndex = '';
+}
+
+/**
+ * Default effect, tabs slide along with the container.
+ */
+const slide: SuperTabsTransitionEffect = (tab) => {
+  resetStyle(tab);
+};
+
+/**
+ * Tabs stay in place and cross-fade.
+ */
+const fade: SuperTabsTransitionEffect = (tab, progress, ctx) => {
+  tab.style.transform = pin(ctx, progress);
+  tab.style.opacity = String(Math.max(0, 1 - Math.abs(progress)));
+  tab.style.zIndex = Math.abs(progress) < 0.5 ? '2' : '1';
+};
+
+/**
+ * Tabs slide at half the speed of the container, so the leaving tab is partially covered by the entering one.
+ */
+const parallax: SuperTabsTransitionEffect = (tab, progress, ctx) => {
+  if (progress < 0) {
+    tab.style.transform = translate(ctx, -progress * ctx.size / 2);
+    tab.style.zIndex = '1';
+  } else {
+    tab.style.transform = '';
+    tab.style.zIndex = '2';
+  }
+
+  tab.style.opacity = '';
+};
+
+/**
+ * The leaving tab stays in place and shrinks, while the entering tab slides over it like a card.
+ */
+const stack: SuperTabsTransitionEffect = (tab, progress, ctx) => {
+  if (progress < 0) {
+    const scale = 1 - Math.min(1, -progress) * 0.1;
+    tab.style.transform = `${pin(ctx, progress)} scale(${scale})`;
+    tab.style.opacity = String(Math.max(0, 1 + progress));
+    tab.style.zIndex = '1';
+  } else {
+    tab.style.transform = '';
+    tab.style.opacity = '';
+    tab.style.zIndex = '2';
+  }
+};
+
+/**
+ * Tabs are rendered on the faces of a rotating cube.
+ */
+const cube: SuperTabsTransitionEffect = (tab, progress, ctx) => {
+  const angle = Math.max(-90, Math.min(90, progress * 90));
+  const rotate = ctx.vertical ? `rotateX(${-angle}deg)` : `rotateY(${ctx.rtl ? -angle : angle}deg)`;
+
+  // rotate the leaving tab around its end edge, and the entering tab around its start edge
+  const atStart = progress > 0;
+  let origin: string;
+
+  if (ctx.vertical) {
+    origin = atStart ? 'center top' : 'center bottom';
+  } else {
+    origin = atStart !== ctx.rtl ? 'left center' : 'right center';
+  }
+
+  tab.style.transform = `perspective(${ctx.size * 2}px) ${rotate}`;
+  tab.style.transformOrigin = origin;
+  tab.style.opacity = Math.abs(progress) >= 1 ? '0' : '';
+  tab.style.zIndex = '';
+};
+
+const effects: { [name: string]: SuperTabsTransitionEffect } = {
+  slide,
+  fade,
+  parallax,
+  stack,
+  cube,
+};
+
+/**
+ * Registers a custom transition effect.
+ *
+ * Once registered, the effect can be used by setting the `transitionEffect` configuration option to its name.
+ * @param name {string} name of the effect
+ * @param effect {SuperTabsTransitionEffect} function that applies the effect to a tab
+ */
+export function registerTransitionEffect(name: string, effect: SuperTabsTransitionEffect) {
+  effects[name] = effect;
+}
+
+export function getTransitionEffect(effect: string | SuperTabsTransitionEffect | undefined): SuperTabsTransitionEffect {
+  if (typeof effect === 'function') {
+    return effect;
+  }
+
+  return (effect && effects[effect]) || slide;
+}
+
+export { slide as slideEffect };
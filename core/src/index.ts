@@ -1,2 +1,21 @@
 export { DEFAULT_CONFIG } from './utils';
-export { SuperTabsConfig } from './interface';
+export { registerTransitionEffect } from './effects';
+export {
+  SuperTabBeforeChangeEventDetail,
+  SuperTabChangeEventDetail,
+  SuperTabChangeSource,
+  SuperTabGuard,
+  SuperTabItem,
+  SuperTabPreload,
+  SuperTabScrollState,
+  SuperTabsConfig,
+  SuperTabsEasing,
+  SuperTabsEasingFunction,
+  SuperTabsPointerType,
+  SuperTabsRenderMode,
+  SuperTabsSpring,
+  SuperTabsStorage,
+  SuperTabsTransitionContext,
+  SuperTabsTransitionEffect,
+  SuperTabsUrlSync,
+} from './interface';
@@ -1,4 +1,6 @@
 export * from './components';
+// the types entry of the package, so the runtime API must be declared here as well
+export { registerTransitionEffect } from './effects';
 
 /**
  * Configuration object for the `super-tabs` component.
@@ -81,8 +83,260 @@ export interface SuperTabsConfig {
 
   lazyLoad?: boolean;
   unloadWhenInvisible?: boolean;
+
+  /**
+   * Number of tabs on each side of the active tab that are loaded when `lazyLoad` is enabled.
+   *
+   * Defaults to `1`.
+   */
+  lazyLoadDistance?: number;
+
+  /**
+   * Number of most recently visited tabs, including the active one, that stay loaded when `unloadWhenInvisible` is
+   * enabled. Other tabs outside of the lazy-load window are unloaded, least recently visited first.
+   * Tabs with the `keepAlive` attribute are never unloaded and don't count towards this number.
+   *
+   * Defaults to `0`, which unloads every tab outside of the lazy-load window.
+   */
+  keepAliveTabs?: number;
+
+  /**
+   * Whether to load the remaining tabs one by one while the browser is idle, when `lazyLoad` is enabled.
+   * Tabs with `preload="never"` are left out. Has no effect when `unloadWhenInvisible` is enabled.
+   *
+   * Defaults to `false`.
+   */
+  preloadWhenIdle?: boolean;
+
+  /**
+   * Pointer types that are allowed to start a swipe gesture.
+   *
+   * Browsers that do not support Pointer Events will fall back to touch events, in which case this
+   * value is ignored.
+   *
+   * Defaults to `['touch', 'pen', 'mouse']`.
+   */
+  pointerTypes?: SuperTabsPointerType[];
+
+  /**
+   * Fling velocity threshold in pixels per millisecond.
+   *
+   * If the pointer is moving at least this fast when it's released, the swipe is treated as a fling and the
+   * container will move to the next tab in the swipe direction, regardless of how far the user has dragged.
+   * To disable this behaviour set this value to `0`.
+   *
+   * Defaults to `0.3`.
+   */
+  flingVelocity?: number;
+
+  /**
+   * Allows a fling to skip across several tabs.
+   *
+   * The number of tabs is determined by the release velocity, see `multiTabFlingVelocity`.
+   *
+   * Defaults to `false`.
+   */
+  multiTabFling?: boolean;
+
+  /**
+   * Additional velocity in pixels per millisecond, above `flingVelocity`, required to skip each additional tab
+   * when `multiTabFling` is enabled.
+   *
+   * Defaults to `1`.
+   */
+  multiTabFlingVelocity?: number;
+
+  /**
+   * Keyboard activation mode of the toolbar buttons.
+   *
+   * When set to `automatic`, moving the focus with the arrow, `Home` and `End` keys also selects the focused tab.
+   * When set to `manual`, the focused tab is only selected after pressing `Enter` or `Space`.
+   *
+   * Defaults to `automatic`.
+   */
+  keyboardActivation?: 'automatic' | 'manual';
+
+  /**
+   * Swipe orientation.
+   *
+   * When set to `vertical`, tabs are stacked on top of each other and the user swipes up and down between them.
+   * Place the toolbar in the `left` or `right` slot of the `super-tabs` component to show it next to the tabs.
+   *
+   * Defaults to `horizontal`.
+   */
+  orientation?: 'horizontal' | 'vertical';
+
+  /**
+   * Transition effect applied to the tabs while moving between them.
+   *
+   * Built-in effects are `slide`, `fade`, `parallax`, `stack` and `cube`. Custom effects can be used by passing
+   * a function, or by registering them with `registerTransitionEffect` and passing their name.
+   *
+   * Defaults to `slide`.
+   */
+  transitionEffect?: string | SuperTabsTransitionEffect;
+
+  /**
+   * Easing curve used for all transitions and animations.
+   *
+   * Accepts a named easing (`linear`, `ease`, `easeIn`, `easeOut`, `easeInOut`, `easeInOutCubic` or `standard`),
+   * cubic bezier control points (e.g. `[0.4, 0, 0.2, 1]`), an easing function, or a spring model.
+   *
+   * Easing functions and springs can't be expressed in CSS, so the indicator will keep its default curve when
+   * either of them is used.
+   *
+   * Defaults to `undefined`, which uses `easeInOutCubic` for scroll animations and `standard` for the indicator.
+   */
+  transitionEasing?: SuperTabsEasing;
+
+  /**
+   * How the container moves between tabs.
+   *
+   * `scroll` scrolls the container element, while `transform` keeps the container in place and moves a track that
+   * holds the tabs with a `translate3d` transform. The `transform` mode is composited on the GPU and doesn't depend on
+   * the native scrolling behavior of the browser, which makes it a good fit for WebViews that interfere with
+   * programmatic scrolling.
+   *
+   * `snap` leaves swiping to the browser, using native momentum scrolling and CSS scroll snapping. The tab change
+   * events are derived from the scroll position of the container. Gesture related options such as `dragThreshold`,
+   * `pointerTypes` and `flingVelocity` don't apply in this mode.
+   *
+   * Defaults to `scroll`.
+   */
+  renderMode?: SuperTabsRenderMode;
+
+  /**
+   * Reflects the active tab into the URL with the History API, so the tab can be restored on load, shared in a link
+   * and changed with the browser back and forward buttons. Meant for apps that don't use a framework router.
+   *
+   * The URL holds the `tabId` of the active tab, or its index when it doesn't have one.
+   *
+   * Disabled by default.
+   */
+  urlSync?: SuperTabsUrlSync;
+
+  /**
+   * Where the active tab is saved when the `super-tabs` component has a `persistKey`.
+   *
+   * `session` uses `sessionStorage`, `local` uses `localStorage`, and any object with `getItem` and `setItem`
+   * methods can be passed to store it elsewhere.
+   *
+   * Defaults to `session`.
+   */
+  persistStorage?: 'session' | 'local' | SuperTabsStorage;
+
+  /**
+   * Whether to save the scroll offsets of the tabs along with the active tab, when the `super-tabs` component has a
+   * `persistKey`.
+   *
+   * Defaults to `false`.
+   */
+  persistScroll?: boolean;
+}
+
+/**
+ * Storage used to persist the active tab. The `Storage` interface of `sessionStorage` and `localStorage` fits it.
+ */
+export interface SuperTabsStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+}
+
+/**
+ * Describes how the active tab is reflected into the URL.
+ */
+export interface SuperTabsUrlSync {
+  /**
+   * `hash` stores the active tab in `location.hash`, `query` stores it in a query parameter.
+   */
+  mode: 'hash' | 'query';
+
+  /**
+   * Name of the query parameter, when `mode` is `query`.
+   *
+   * Defaults to `tab`.
+   */
+  param?: string;
+
+  /**
+   * Whether tab changes add a new history entry (`push`) or replace the current one (`replace`).
+   *
+   * Defaults to `push`.
+   */
+  history?: 'push' | 'replace';
+}
+
+/**
+ * Preload strategy of a tab when lazy loading is enabled.
+ */
+export type SuperTabPreload = 'eager' | 'lazy' | 'never';
+
+/**
+ * Describes a tab generated from the `items` property of the `super-tabs` component.
+ */
+export interface SuperTabItem {
+  /**
+   * Unique identifier of the item. Used as the `tabId` of the generated tab and button.
+   */
+  id: string;
+
+  /**
+   * Text of the button label.
+   */
+  label?: string;
+
+  /**
+   * Name of the `ion-icon` shown in the button.
+   */
+  icon?: string;
+
+  /**
+   * Content of an `ion-badge` shown in the button.
+   */
+  badge?: string | number;
+
+  /**
+   * Whether the button is disabled.
+   */
+  disabled?: boolean;
+
+  /**
+   * Tag name of the element rendered inside the tab, e.g. `my-profile-page`.
+   */
+  component?: string;
+
+  /**
+   * Properties assigned to the element created from `component`. They are assigned again whenever the items change.
+   */
+  componentProps?: { [key: string]: any };
+
+  /**
+   * Renders the content of the tab. Takes precedence over `component`.
+   *
+   * Called when the tab is created, and again when a different function is passed. The returned element, if any,
+   * is appended to the tab.
+   */
+  render?: (tab: HTMLSuperTabElement, item: SuperTabItem) => HTMLElement | void;
 }
 
+/**
+ * Scroll offsets of the root scrollable element of a tab.
+ */
+export interface SuperTabScrollState {
+  top: number;
+  left: number;
+}
+
+/**
+ * Modes the container can use to move between tabs.
+ */
+export type SuperTabsRenderMode = 'scroll' | 'transform' | 'snap';
+
+/**
+ * Pointer types that can be used to swipe between tabs.
+ */
+export type SuperTabsPointerType = 'touch' | 'pen' | 'mouse';
+
 /**
  * Event detail emitted by the `tabChange` event from the `super-tabs` component.
  */
@@ -96,5 +350,145 @@ export interface SuperTabChangeEventDetail {
    * Indicates whether the tab index has changed.
    */
   changed: boolean;
+
+  /**
+   * Index of the tab that was active before this change.
+   */
+  previousIndex: number;
+
+  /**
+   * What triggered the tab change.
+   */
+  source: SuperTabChangeSource;
+
+  /**
+   * The selected `super-tab` element.
+   */
+  tab?: HTMLSuperTabElement;
+
+  /**
+   * The `tabId` of the selected `super-tab` element, if it has one.
+   */
+  tabId?: string;
+}
+
+/**
+ * What triggered a tab change.
+ *
+ * - `swipe`: the user swiped the container
+ * - `click`: the user clicked a toolbar button
+ * - `method`: `selectTab` was called
+ * - `slotchange`: the tabs changed and the active tab had to be updated
+ * - `resize`: the component was resized and the active tab had to be updated
+ * - `url`: the URL changed, when `urlSync` is enabled
+ */
+export type SuperTabChangeSource = 'swipe' | 'click' | 'method' | 'slotchange' | 'resize' | 'url';
+
+
+/**
+ * Event detail emitted by the `beforeTabChange` event from the `super-tabs` component.
+ */
+export interface SuperTabBeforeChangeEventDetail {
+  /**
+   * Index of the tab that is about to become active.
+   */
+  index: number;
+
+  /**
+   * Index of the current active tab.
+   */
+  previousIndex: number;
+
+  /**
+   * What triggered the tab change.
+   */
+  source: SuperTabChangeSource;
+}
+
+/**
+ * Guard callback used by the `canEnter` and `canLeave` properties of the `super-tab` component.
+ *
+ * Returning (or resolving to) `false` cancels the tab change.
+ */
+export type SuperTabGuard = () => boolean | Promise<boolean>;
+
+/**
+ * Lifecycle events emitted by the `super-tab` component.
+ */
+export type SuperTabLifecycleEvent = 'willEnter' | 'didEnter' | 'willLeave' | 'didLeave' | 'willUnload';
+
+/**
+ * Transition effect function.
+ *
+ * This function is called for every tab whenever the container moves. `progress` is the position of the tab
+ * relative to the visible area, in tabs: `0` means the tab is fully visible, `-1` means it's one tab before it and
+ * `1` means it's one tab after it. Effects are expected to style the tab element directly.
+ */
+export type SuperTabsTransitionEffect = (tab: HTMLSuperTabElement, progress: number, context: SuperTabsTransitionContext) => void;
+
+/**
+ * Information about the container that is passed to transition effects.
+ */
+export interface SuperTabsTransitionContext {
+  /**
+   * Size of a single tab along the swipe axis, in pixels.
+   */
+  size: number;
+
+  /**
+   * Whether the container is in vertical orientation.
+   */
+  vertical: boolean;
+
+  /**
+   * Whether the container has a right-to-left layout.
+   */
+  rtl: boolean;
+}
+
+/**
+ * Easing function, receives the elapsed time as a value between `0` and `1` and returns the animation progress.
+ */
+export type SuperTabsEasingFunction = (t: number) => number;
+
+/**
+ * Spring model used to animate transitions.
+ *
+ * The spring curve is scaled to fit the configured `transitionDuration`.
+ */
+export interface SuperTabsSpring {
+  type: 'spring';
+
+  /**
+   * Spring stiffness.
+   *
+   * Defaults to `170`.
+   */
+  stiffness?: number;
+
+  /**
+   * Spring damping. Lower values make the spring bounce more.
+   *
+   * Defaults to `26`.
+   */
+  damping?: number;
+
+  /**
+   * Mass of the moving object.
+   *
+   * Defaults to `1`.
+   */
+  mass?: number;
 }
 
+export type SuperTabsEasing =
+  'linear'
+  | 'ease'
+  | 'easeIn'
+  | 'easeOut'
+  | 'easeInOut'
+  | 'easeInOutCubic'
+  | 'standard'
+  | [number, number, number, number]
+  | SuperTabsEasingFunction
+  | SuperTabsSpring;
@@ -0,0 +1,137 @@
+import { SuperTabItem } from './interface';
+
+
+/**
+ * Keeps the generated children of the parent in sync with the items, matching them by `id`.
+ *
+ * Children that no longer have an item are removed, new items get a new child, and the generated children are
+ * reordered to follow the items. Children that were not generated are left alone.
+ */
+function syncChildren<T extends HTMLElement>(parent: HTMLElement,
+                                             items: SuperTabItem[],
+                                             elements: Map<string, T>,
+                                             create: (item: SuperTabItem) => T,
+                                             update: (el: T, item: SuperTabItem) => void) {
+  const ids = items.map((item) => item.id);
+
+  elements.forEach((el, id) => {
+    if (ids.indexOf(id) === -1) {
+      el.remove();
+      elements.delete(id);
+    }
+  });
+
+  let previous: T | undefined;
+
+  for (const item of items) {
+    let el = elements.get(item.id);
+
+    if (!el) {
+      el = create(item);
+      elements.set(item.id, el);
+    }
+
+    update(el, item);
+
+    if (!previous) {
+      if (el.parentElement !== parent) {
+        parent.appendChild(el);
+      }
+    } else if (previous.nextElementSibling !== el) {
+      parent.insertBefore(el, previous.nextElementSibling);
+    }
+
+    previous = el;
+  }
+}
+
+/**
+ * Returns the direct child of the element with the given tag, creating it if needed.
+ */
+function getChild(el: HTMLElement, tag: string): HTMLElement {
+  const children = Array.from(el.children) as HTMLElement[];
+  return children.find((c) => c.tagName.toLowerCase() === tag) || document.createElement(tag);
+}
+
+function updateButton(button: HTMLSuperTabButtonElement, item: SuperTabItem) {
+  button.tabId = item.id;
+  button.disabled = !!item.disabled;
+
+  const children: HTMLElement[] = [];
+
+  if (item.icon) {
+    const icon = getChild(button, 'ion-icon');
+    icon.setAttribute('name', item.icon);
+    children.push(icon);
+  }
+
+  if (item.label) {
+    const label = getChild(button, 'ion-label');
+    label.textContent = item.label;
+    children.push(label);
+  }
+
+  if (item.badge !== undefined && item.badge !== null && item.badge !== '') {
+    const badge = getChild(button, 'ion-badge');
+    badge.textContent = String(item.badge);
+    children.push(badge);
+  }
+
+  (Array.from(button.children) as HTMLElement[])
+    .filter((c) => children.indexOf(c) === -1)
+    .forEach((c) => c.remove());
+
+  children.forEach((c, i) => {
+    if (button.children[i] !== c) {
+      button.insertBefore(c, button.children[i] || null);
+    }
+  });
+}
+
+/**
+ * Renderers that were used for the content of each tab, so the content is only rendered again when they change.
+ */
+const tabRenderers: WeakMap<HTMLSuperTabElement, SuperTabItem['render'] | string> = new WeakMap();
+
+function updateTab(tab: HTMLSuperTabElement, item: SuperTabItem) {
+  tab.tabId = item.id;
+
+  const renderer = item.render || item.component;
+
+  if (tabRenderers.get(tab) !== renderer) {
+    tabRenderers.set(tab, renderer);
+
+    while (tab.firstChild) {
+      tab.removeChild(tab.firstChild);
+    }
+
+    if (item.render) {
+      const content = item.render(tab, item);
+      content && tab.appendChild(content);
+    } else if (item.component) {
+      tab.appendChild(document.createElement(item.component));
+    }
+  }
+
+  if (item.component && !item.render && tab.firstElementChild) {
+    Object.assign(tab.firstElementChild, item.componentProps);
+  }
+}
+
+/**
+ * Generates the toolbar buttons for the items.
+ */
+export function syncButtons(toolbar: HTMLSuperTabsToolbarElement,
+                            items: SuperTabItem[],
+                            buttons: Map<string, HTMLSuperTabButtonElement>) {
+  syncChildren(toolbar, items, buttons, () => document.createElement('super-tab-button'), updateButton);
+}
+
+/**
+ * Generates the container tabs for the items.
+ */
+export function syncTabs(container: HTMLSuperTabsContainerElement,
+                         items: SuperTabItem[],
+                         tabs: Map<string, HTMLSuperTabElement>) {
+  syncChildren(container, items, tabs, () => document.createElement('super-tab'), updateTab);
+}
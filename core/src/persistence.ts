@@ -0,0 +1,57 @@
+import { SuperTabScrollState, SuperTabsStorage } from './interface';
+
+
+/**
+ * State saved for a `super-tabs` component with a `persistKey`.
+ */
+export interface PersistedTabsState {
+  /**
+   * `tabId` of the active tab, if it has one.
+   */
+  tabId?: string;
+
+  /**
+   * Index of the active tab.
+   */
+  index: number;
+
+  /**
+   * Scroll offsets of the tabs, by `tabId` or by index for tabs without one.
+   */
+  scroll?: { [tab: string]: SuperTabScrollState };
+}
+
+const keyPrefix = 'super-tabs:';
+
+/**
+ * Returns the storage to use, or `undefined` if it isn't available, e.g. when the browser blocks access to it.
+ */
+export function getStorage(storage: 'session' | 'local' | SuperTabsStorage | undefined): SuperTabsStorage | undefined {
+  if (storage && typeof storage === 'object') {
+    return storage;
+  }
+
+  try {
+    return storage === 'local' ? window.localStorage : window.sessionStorage;
+  } catch (e) {
+    return undefined;
+  }
+}
+
+export function readPersistedState(storage: SuperTabsStorage, key: string): PersistedTabsState | undefined {
+  try {
+    const value = storage.getItem(keyPrefix + key);
+    const state = value ? JSON.parse(value) : undefined;
+    return state && typeof state.index === 'number' ? state : undefined;
+  } catch (e) {
+    return undefined;
+  }
+}
+
+export function writePersistedState(storage: SuperTabsStorage, key: string, state: PersistedTabsState) {
+  try {
+    storage.setItem(keyPrefix + key, JSON.stringify(state));
+  } catch (e) {
+    // the storage is full or not writable, there is nothing else to do
+  }
+}
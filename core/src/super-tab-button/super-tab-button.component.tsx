@@ -3,6 +3,8 @@ import { Component, ComponentInterface, Element, h, Host, Prop, State } from '@s
 
 const maxRetryAttempts = 1e3;
 
+let buttonIds: number = 0;
+
 @Component({
   tag: 'super-tab-button',
   styleUrl: 'super-tab-button.component.scss',
@@ -17,6 +19,13 @@ export class SuperTabButtonComponent implements ComponentInterface {
   /** @internal */
   @Prop({ reflectToAttr: true }) index?: number;
 
+  /**
+   * The `tabId` of the tab this button selects.
+   *
+   * If set, clicking the button selects the `super-tab` with the same `tabId` instead of the tab at the same index.
+   */
+  @Prop({ reflectToAttr: true }) tabId?: string;
+
   /**
    * Whether the button is disabled
    */
@@ -25,11 +34,23 @@ export class SuperTabButtonComponent implements ComponentInterface {
   /** @internal */
   @Prop() scrollableContainer: boolean = false;
 
+  /** @internal */
+  @Prop() focusTarget: boolean = false;
+
+  /** @internal */
+  @Prop() controls?: string;
+
   @State() label!: HTMLElement | null;
   @State() icon!: HTMLElement | null;
 
   private retryAttempts: number = 0;
 
+  componentWillLoad() {
+    if (!this.el.id) {
+      this.el.id = `super-tab-button-${buttonIds++}`;
+    }
+  }
+
   componentDidLoad() {
     this.indexChildren();
     this.initCmp();
@@ -61,10 +82,12 @@ export class SuperTabButtonComponent implements ComponentInterface {
   render() {
     return (
       <Host
-        role="button"
+        role="tab"
+        aria-controls={this.controls}
         aria-label={this.label ? this.label.innerText : false}
         aria-disabled={this.disabled ? 'true' : false}
         aria-selected={this.active ? 'true' : 'false'}
+        tabindex={this.focusTarget && !this.disabled ? '0' : '-1'}
         class={{
           'ion-activatable': true,
           'ion-focusable': true,
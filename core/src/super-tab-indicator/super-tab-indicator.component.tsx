@@ -12,19 +12,29 @@ export class SuperTabIndicatorComponent implements ComponentInterface {
    * Toolbar position
    * This determines the position of the indicator
    */
-  @Prop() toolbarPosition: 'top' | 'bottom' = 'top';
+  @Prop() toolbarPosition: 'top' | 'bottom' | 'left' | 'right' = 'top';
 
   render() {
     const style: any = {};
 
-    if (this.toolbarPosition === 'bottom') {
-      style.top = 0;
-    } else {
-      style.bottom = 0;
+    switch (this.toolbarPosition) {
+      case 'bottom':
+        style.top = 0;
+        break;
+      case 'left':
+        style.right = 0;
+        break;
+      case 'right':
+        style.left = 0;
+        break;
+      default:
+        style.bottom = 0;
     }
 
+    const vertical = this.toolbarPosition === 'left' || this.toolbarPosition === 'right';
+
     return (
-      <Host style={style}/>
+      <Host style={style} class={{ vertical }}/>
     );
   }
 }
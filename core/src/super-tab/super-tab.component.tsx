@@ -1,6 +1,9 @@
-import { Component, ComponentInterface, Element, h, Host, Method, Prop } from '@stencil/core';
+import { Component, ComponentInterface, Element, Event, EventEmitter, h, Host, Method, Prop, Watch } from '@stencil/core';
+import { SuperTabGuard, SuperTabLifecycleEvent, SuperTabPreload, SuperTabScrollState } from '../interface';
 
 
+let tabIds: number = 0;
+
 @Component({
   tag: 'super-tab',
   styleUrl: 'super-tab.component.scss',
@@ -21,16 +24,109 @@ export class SuperTabComponent implements ComponentInterface {
     reflect: true,
   }) noScroll!: boolean;
 
-  @Prop() loaded = false;
+  /**
+   * Stable identifier of this tab.
+   *
+   * Tabs with an id can be selected with `selectTabById`, and stay selected when tabs are added, removed
+   * or reordered.
+   */
+  @Prop({ reflectToAttr: true }) tabId?: string;
+
+  /**
+   * Guard that runs before this tab becomes active.
+   *
+   * Return `false`, or a promise that resolves to `false`, to prevent the tab change.
+   */
+  @Prop() canEnter?: SuperTabGuard;
+
+  /**
+   * Guard that runs before another tab becomes active while this tab is active.
+   *
+   * Return `false`, or a promise that resolves to `false`, to keep this tab active. This is useful to prevent
+   * users from leaving a tab with unsaved changes.
+   */
+  @Prop() canLeave?: SuperTabGuard;
+
+  /**
+   * How this tab is loaded when lazy loading is enabled.
+   *
+   * `eager` tabs are loaded right away and never unloaded, `lazy` tabs are loaded when they are close to the active
+   * tab or when the browser is idle, and `never` tabs are only loaded once they become the active tab.
+   *
+   * Defaults to `lazy`.
+   */
+  @Prop() preload: SuperTabPreload = 'lazy';
+
+  /**
+   * Set this to true to keep this tab loaded once it was loaded, even when `unloadWhenInvisible` is enabled.
+   */
+  @Prop({ reflectToAttr: true }) keepAlive: boolean = false;
+
+  /** @internal */
+  @Prop({ reflectToAttr: true }) active?: boolean;
+
+  /** @internal */
+  @Prop() labelledBy?: string;
+
+  @Prop({ reflectToAttr: true }) loaded = false;
   @Prop() visible = false;
 
+  /**
+   * Emitted when this tab is about to become the active tab.
+   */
+  @Event({ bubbles: false }) tabWillEnter!: EventEmitter<void>;
+
+  /**
+   * Emitted when this tab became the active tab and the transition is done.
+   */
+  @Event({ bubbles: false }) tabDidEnter!: EventEmitter<void>;
+
+  /**
+   * Emitted when this tab is about to stop being the active tab.
+   */
+  @Event({ bubbles: false }) tabWillLeave!: EventEmitter<void>;
+
+  /**
+   * Emitted when this tab is no longer the active tab and the transition is done.
+   */
+  @Event({ bubbles: false }) tabDidLeave!: EventEmitter<void>;
+
+  /**
+   * Emitted when this tab is about to be unloaded to save memory.
+   * Its content will be removed from the DOM, so this is the last chance to save its state.
+   */
+  @Event({ bubbles: false }) tabWillUnload!: EventEmitter<void>;
+
+  private scrollState?: SuperTabScrollState;
+  private restoreScroll: boolean = false;
+
+  componentWillLoad() {
+    if (!this.el.id) {
+      this.el.id = `super-tab-${tabIds++}`;
+    }
+  }
+
   componentDidLoad() {
     this.checkIonContent();
+    this.restoreScrollState();
   }
 
   componentDidUpdate() {
     // check for ion-content after update, in case it was dynamically loaded
     this.checkIonContent();
+
+    if (this.restoreScroll) {
+      this.restoreScroll = false;
+      this.restoreScrollState();
+    }
+  }
+
+  @Watch('loaded')
+  onLoadedChange(loaded: boolean) {
+    // the content is rendered again, bring it back to where the user left it
+    if (loaded) {
+      this.restoreScroll = true;
+    }
   }
 
   /**
@@ -69,8 +165,83 @@ export class SuperTabComponent implements ComponentInterface {
     return this.el;
   }
 
+  /**
+   * Returns the scroll offsets of the root scrollable element.
+   * If the tab is not loaded, the offsets it had when it was unloaded are returned.
+   */
+  @Method()
+  async getScrollState(): Promise<SuperTabScrollState | undefined> {
+    await this.saveScrollState();
+    return this.scrollState ? { ...this.scrollState } : undefined;
+  }
+
+  /**
+   * Sets the scroll offsets of the root scrollable element.
+   * If the tab is not loaded, the offsets are applied once it is.
+   * @param state {SuperTabScrollState} offsets returned by `getScrollState`
+   */
+  @Method()
+  async setScrollState(state: SuperTabScrollState): Promise<void> {
+    this.scrollState = { ...state };
+    await this.restoreScrollState();
+  }
+
+  private async saveScrollState() {
+    if (!this.loaded) {
+      // keep the offsets from when the content was still there
+      return;
+    }
+
+    const el = await this.getRootScrollableEl();
+
+    if (el) {
+      this.scrollState = { top: el.scrollTop, left: el.scrollLeft };
+    }
+  }
+
+  private async restoreScrollState() {
+    if (!this.scrollState || !this.loaded) {
+      return;
+    }
+
+    const el = await this.getRootScrollableEl();
+
+    if (el) {
+      el.scrollTop = this.scrollState.top;
+      el.scrollLeft = this.scrollState.left;
+    }
+  }
+
+  /** @internal */
+  @Method()
+  async emitLifecycleEvent(event: SuperTabLifecycleEvent) {
+    switch (event) {
+      case 'willEnter':
+        await this.restoreScrollState();
+        this.tabWillEnter.emit();
+        break;
+      case 'didEnter':
+        this.tabDidEnter.emit();
+        break;
+      case 'willLeave':
+        await this.saveScrollState();
+        this.tabWillLeave.emit();
+        break;
+      case 'didLeave':
+        this.tabDidLeave.emit();
+        break;
+      case 'willUnload':
+        await this.saveScrollState();
+        this.tabWillUnload.emit();
+        break;
+    }
+  }
+
   render() {
-    return <Host style={{ visibility: this.visible ? 'visible' : 'hidden' }}>
+    return <Host role="tabpanel"
+                 aria-labelledby={this.labelledBy}
+                 aria-hidden={this.active ? null : 'true'}
+                 style={{ visibility: this.visible ? 'visible' : 'hidden' }}>
       {
         this.loaded ? <slot></slot> : null
       }
@@ -5,14 +5,49 @@ import {
   Event,
   EventEmitter,
   h,
+  Host,
   Listen,
   Method,
   Prop,
   QueueApi,
   State,
 } from '@stencil/core';
-import { SuperTabsConfig } from '../interface';
-import { checkGesture, debugLog, getTs, pointerCoord, scrollEl, STCoord } from '../utils';
+import { getTransitionEffect, slideEffect } from '../effects';
+import { SuperTabsConfig, SuperTabsPointerType, SuperTabsRenderMode, SuperTabsTransitionEffect } from '../interface';
+import {
+  cancelScrollEl,
+  checkGesture,
+  createResizeObserver,
+  debugLog,
+  getEasing,
+  getScrollStart,
+  getTs,
+  isRTL,
+  pointerCoord,
+  pointerEventsAvailable,
+  runWhenIdle,
+  scrollEl,
+  STCoord,
+  STResizeObserver,
+  STResizeObserverEntry,
+  toScrollLeft,
+  tweenEl,
+} from '../utils';
+
+type VelocitySample = {
+  pos: number;
+  ts: number;
+};
+
+/**
+ * Time window in milliseconds used to calculate the release velocity of a swipe.
+ */
+const velocitySampleWindow: number = 100;
+
+/**
+ * Time in milliseconds without scroll events after which a native scroll is considered done in `snap` mode.
+ */
+const snapScrollEndDelay: number = 100;
 
 @Component({
   tag: 'super-tabs-container',
@@ -40,8 +75,9 @@ export class SuperTabsContainerComponent implements ComponentInterface {
   @Prop() autoScrollTop: boolean = false;
 
   /**
-   * Emits an event when the active tab changes.
-   * An active tab is the tab that the user looking at.
+   * Emits an event when the user swipes to a tab, or when the active tab moved to a new index.
+   * An active tab is the tab that the user looking at. A swiped to tab only becomes active once the `super-tabs`
+   * element accepted the change.
    *
    * This event emitter will not notify you if the user has changed the current active tab.
    * If you need that information, you should use the `tabChange` event emitted by the `super-tabs` element.
@@ -59,17 +95,50 @@ export class SuperTabsContainerComponent implements ComponentInterface {
   @State() tabs: HTMLSuperTabElement[] = [];
 
   private initialCoords: STCoord | undefined;
-  private lastPosX: number | undefined;
+  private lastPos: number | undefined;
+  private velocitySamples: VelocitySample[] = [];
   private isDragging: boolean = false;
+  private preventClick: boolean = false;
+  private interruptedTransition: boolean = false;
+  private pointerId: number | undefined;
   private initialTimestamp?: number;
   private _activeTabIndex: number | undefined;
+  private activeTabEl?: HTMLSuperTabElement;
   private _selectedTabIndex?: number;
   private leftThreshold: number = 0;
   private rightThreshold: number = 0;
-  private scrollWidth: number = 0;
+  private scrollSize: number = 0;
   private slot!: HTMLSlotElement;
   private ready?: boolean;
   private width: number = 0;
+  private size: number = 0;
+  private rtl: boolean = false;
+  private vertical: boolean = false;
+  private renderMode: SuperTabsRenderMode = 'scroll';
+  private snapSuspended: number = 0;
+  private snapScrollEndTimeout: any;
+  private trackEl?: HTMLElement;
+  private trackPos: number = 0;
+  private transitionEffect: SuperTabsTransitionEffect = slideEffect;
+  private resizeObserver?: STResizeObserver;
+  private cancelIdlePreload?: () => void;
+  private recentTabs: HTMLSuperTabElement[] = [];
+  private unloadingTabs: Set<HTMLSuperTabElement> = new Set();
+  private proposedTab?: { index: number; transition: Promise<void> };
+
+  connectedCallback() {
+    if (!this.resizeObserver) {
+      this.resizeObserver = createResizeObserver(this.onResize.bind(this));
+    }
+
+    this.resizeObserver && this.resizeObserver.observe(this.el);
+  }
+
+  disconnectedCallback() {
+    this.resizeObserver && this.resizeObserver.disconnect();
+    clearTimeout(this.snapScrollEndTimeout);
+    this.cancelIdlePreload && this.cancelIdlePreload();
+  }
 
   async componentDidLoad() {
     this.debug('componentDidLoad');
@@ -86,9 +155,34 @@ export class SuperTabsContainerComponent implements ComponentInterface {
   }
 
   async componentDidRender() {
+    if (this.hasObservedSize()) {
+      // the resize observer keeps the size up to date, don't read the layout on every render
+      this.updateRenderMode();
+      return;
+    }
+
     this.updateWidth();
   }
 
+  /**
+   * Re-aligns the tabs when the container changes size, e.g. in a split pane, or when it was hidden.
+   */
+  private onResize(entries: STResizeObserverEntry[]) {
+    const entry = entries.find((e) => e.target === this.el);
+
+    this.queue.read(() => {
+      const size = this.size;
+      this.updateWidth(entry && entry.contentRect);
+
+      if (this.size === size || this.size === 0) {
+        return;
+      }
+
+      this.debug('onResize', size, this.size);
+      this.queue.write(() => this.indexTabs());
+    });
+  }
+
   /**
    * @internal
    */
@@ -107,6 +201,9 @@ export class SuperTabsContainerComponent implements ComponentInterface {
    */
   @Method()
   moveContainerByIndex(index: number, animate?: boolean): Promise<void> {
+    // the container no longer heads to the swiped to tab
+    this.proposedTab = undefined;
+
     const scrollX = this.indexToPosition(index);
 
     if (scrollX === 0 && index > 0) {
@@ -119,18 +216,30 @@ export class SuperTabsContainerComponent implements ComponentInterface {
   /**
    * @internal
    *
-   * Sets the scrollLeft property of the container
+   * Sets the scroll position of the container, measured from its start edge.
+   * Resolves when the transition is done, or when it was interrupted by another transition or a swipe.
    * @param scrollX {number}
    * @param animate {boolean}
    */
   @Method()
   moveContainer(scrollX: number, animate?: boolean): Promise<void> {
     if (animate) {
-      scrollEl(this.el, scrollX, this.config!.nativeSmoothScroll!, this.config!.transitionDuration);
-    } else {
-      this.el.scroll(scrollX, 0);
+      const duration = this.config!.transitionDuration!;
+      const easing = getEasing(this.config);
+
+      if (this.renderMode === 'transform') {
+        return tweenEl(this.el, () => this.trackPos, scrollX, duration, easing, (pos) => this.setScrollPosition(pos)).finished;
+      }
+
+      if (this.renderMode === 'snap') {
+        return this.suspendSnap(scrollEl(this.el, scrollX, this.config!.nativeSmoothScroll!, duration, this.vertical, easing).finished);
+      }
+
+      return scrollEl(this.el, scrollX, this.config!.nativeSmoothScroll!, duration, this.vertical, easing).finished;
     }
 
+    cancelScrollEl(this.el);
+    this.setScrollPosition(scrollX);
     return Promise.resolve();
   }
 
@@ -139,6 +248,9 @@ export class SuperTabsContainerComponent implements ComponentInterface {
   async setActiveTabIndex(index: number, moveContainer: boolean = true, animate: boolean = true): Promise<void> {
     this.debug('setActiveTabIndex', index);
 
+    const proposedTab = this.proposedTab;
+    this.proposedTab = undefined;
+
     if (this._activeTabIndex === index) {
       if (!this.autoScrollTop) {
         return;
@@ -147,11 +259,17 @@ export class SuperTabsContainerComponent implements ComponentInterface {
       await this.scrollToTop();
     }
 
-    if (moveContainer) {
-      await this.moveContainerByIndex(index, animate);
+    let transition: Promise<void> = Promise.resolve();
+
+    if (proposedTab && proposedTab.index === index) {
+      // the container is already on its way to the swiped to tab
+      transition = proposedTab.transition;
+    } else if (moveContainer) {
+      transition = this.moveContainerByIndex(index, animate);
     }
 
-    await this.updateActiveTabIndex(index, false);
+    this.updateActiveTabIndex(index, transition);
+    await transition;
   }
 
   /**
@@ -173,23 +291,68 @@ export class SuperTabsContainerComponent implements ComponentInterface {
       //  deepcode ignore PromiseNotCaughtGeneral: <comment the reason here>
       current.getRootScrollableEl().then((el) => {
         if (el) {
-          scrollEl(el, 0, this.config!.nativeSmoothScroll!, this.config!.transitionDuration);
+          scrollEl(el, 0, this.config!.nativeSmoothScroll!, this.config!.transitionDuration, true, getEasing(this.config));
         }
       });
     });
   }
 
-  private updateActiveTabIndex(index: number, emit: boolean = true) {
-    this.debug('updateActiveTabIndex', index, emit, this._activeTabIndex);
+  /**
+   * Lets `super-tabs` know that the user swiped to the tab. The tab only becomes active when `super-tabs` calls
+   * `setActiveTabIndex` after the tab guards passed, so a rejected change doesn't fire any lifecycle event.
+   */
+  private proposeActiveTabIndex(index: number, transition: Promise<void>) {
+    this.debug('proposeActiveTabIndex', index, this._activeTabIndex);
+
+    this.proposedTab = { index, transition };
+    this.activeTabIndexChange.emit(index);
+  }
+
+  private updateActiveTabIndex(index: number, transition: Promise<void>) {
+    this.debug('updateActiveTabIndex', index, this._activeTabIndex);
 
     this._activeTabIndex = index;
-    emit && this.activeTabIndexChange.emit(this._activeTabIndex);
+
+    // the leaving tab saves its state before it may be unloaded
+    this.updateActiveTabEl(transition);
 
     if (this.config!.lazyLoad) {
       this.lazyLoadTabs();
     }
   }
 
+  /**
+   * Keeps track of the active tab element and fires the lifecycle events of the tabs that are entering and leaving.
+   * The `did*` events fire once the container transition and the `will*` events are done.
+   */
+  private updateActiveTabEl(transition: Promise<void>) {
+    const tab = this.tabs[this._activeTabIndex!];
+    const previousTab = this.activeTabEl;
+
+    if (!tab || tab === previousTab) {
+      return;
+    }
+
+    this.activeTabEl = tab;
+
+    if (previousTab) {
+      previousTab.active = false;
+    }
+
+    tab.active = true;
+
+    const willLeave = previousTab ? previousTab.emitLifecycleEvent('willLeave') : undefined;
+    const willEnter = tab.emitLifecycleEvent('willEnter');
+
+    Promise.all([willLeave, willEnter, transition]).then(() => {
+      previousTab && previousTab.emitLifecycleEvent('didLeave');
+
+      if (this.activeTabEl === tab) {
+        tab.emitLifecycleEvent('didEnter');
+      }
+    });
+  }
+
   private updateSelectedTabIndex(index: number) {
     if (index === this._selectedTabIndex) {
       return;
@@ -199,12 +362,179 @@ export class SuperTabsContainerComponent implements ComponentInterface {
     this.selectedTabIndexChange.emit(this._selectedTabIndex);
   }
 
+  @Listen('pointerdown')
+  async onPointerDown(ev: PointerEvent) {
+    if (typeof this.pointerId === 'number' && this.pointerId !== ev.pointerId) {
+      // another pointer is already driving the gesture, e.g. a second finger
+      return;
+    }
+
+    // a new press, any click from here on wasn't caused by a previous drag
+    this.preventClick = false;
+
+    if (!this.isPointerTypeAllowed(ev) || (ev.pointerType === 'mouse' && ev.button !== 0)) {
+      return;
+    }
+
+    this.onGestureStart(ev);
+  }
+
+  @Listen('pointermove', { passive: true, capture: true })
+  async onPointerMove(ev: PointerEvent) {
+    if (ev.pointerType === 'mouse' && ev.buttons === 0 && this.initialCoords) {
+      // the mouse button was released outside of the container before we captured the pointer
+      this.resetGesture();
+      return;
+    }
+
+    this.onGestureMove(ev);
+  }
+
+  @Listen('pointerup', { passive: false, capture: true })
+  async onPointerUp(ev: PointerEvent) {
+    this.onGestureEnd(ev);
+  }
+
+  @Listen('pointercancel', { passive: false, capture: true })
+  async onPointerCancel(ev: PointerEvent) {
+    this.onGestureEnd(ev);
+  }
+
   @Listen('touchstart')
   async onTouchStart(ev: TouchEvent) {
+    if (pointerEventsAvailable) {
+      return;
+    }
+
+    this.onGestureStart(ev);
+  }
+
+  @Listen('touchmove', { passive: true, capture: true })
+  async onTouchMove(ev: TouchEvent) {
+    if (pointerEventsAvailable) {
+      // the pointer events drive the gesture, but the touch events of a drag must not reach the content either
+      if (this.isDragging && !this.config!.allowElementScroll) {
+        ev.stopImmediatePropagation();
+      }
+      return;
+    }
+
+    this.onGestureMove(ev);
+  }
+
+  @Listen('touchend', { passive: false, capture: true })
+  async onTouchEnd(ev: TouchEvent) {
+    if (pointerEventsAvailable) {
+      return;
+    }
+
+    this.onGestureEnd(ev);
+  }
+
+  @Listen('scroll', { passive: true })
+  onScroll() {
+    this.applyTransitionEffect();
+
+    if (this.renderMode === 'snap' && this.snapSuspended === 0) {
+      this.onSnapScroll();
+    }
+  }
+
+  /**
+   * Derives the selected and active tab indexes from a native scroll in `snap` mode.
+   */
+  private onSnapScroll() {
+    if (this.size === 0) {
+      return;
+    }
+
+    const index = Math.round(this.calcSelectedTab() * 100) / 100;
+    this.updateSelectedTabIndex(index);
+
+    clearTimeout(this.snapScrollEndTimeout);
+
+    this.snapScrollEndTimeout = setTimeout(() => {
+      const activeTabIndex = this.normalizeSelectedTab(this.calcSelectedTab());
+      const currentTabIndex = this.proposedTab ? this.proposedTab.index : this._activeTabIndex;
+
+      if (activeTabIndex !== currentTabIndex) {
+        this.proposeActiveTabIndex(activeTabIndex, Promise.resolve());
+      }
+    }, snapScrollEndDelay);
+  }
+
+  /**
+   * Turns scroll snapping off until the animation is done, otherwise the browser snaps every frame of it.
+   */
+  private suspendSnap(animation: Promise<void>): Promise<void> {
+    this.snapSuspended++;
+    this.el.style.setProperty('scroll-snap-type', 'none');
+
+    return animation.then(() => {
+      this.snapSuspended--;
+
+      if (this.snapSuspended === 0) {
+        this.el.style.removeProperty('scroll-snap-type');
+      }
+    });
+  }
+
+  /**
+   * Applies the configured transition effect to every tab, based on the current scroll position.
+   */
+  private applyTransitionEffect() {
+    const effect = getTransitionEffect(this.config && this.config.transitionEffect);
+
+    if (effect === slideEffect && this.transitionEffect === slideEffect) {
+      // tabs are already in their natural position
+      return;
+    }
+
+    this.transitionEffect = effect;
+
+    if (this.size === 0) {
+      return;
+    }
+
+    const selectedTabIndex = this.getScrollPosition() / this.size;
+    const ctx = { size: this.size, vertical: this.vertical, rtl: this.rtl };
+
+    this.tabs.forEach((tab, index) => {
+      effect(tab, index - selectedTabIndex, ctx);
+    });
+  }
+
+  @Listen('click', { passive: false, capture: true })
+  async onClick(ev: MouseEvent) {
+    if (this.isDragging || this.preventClick) {
+      ev.stopImmediatePropagation();
+      ev.preventDefault();
+    }
+
+    this.preventClick = false;
+  }
+
+  private isPointerTypeAllowed(ev: PointerEvent): boolean {
+    const pointerTypes = this.config!.pointerTypes;
+
+    if (!Array.isArray(pointerTypes)) {
+      return true;
+    }
+
+    return pointerTypes.indexOf(ev.pointerType as SuperTabsPointerType) > -1;
+  }
+
+  private onGestureStart(ev: TouchEvent | PointerEvent) {
     if (!this.swipeEnabled) {
       return;
     }
 
+    if (this.renderMode === 'snap') {
+      // the browser handles the gesture, make sure a running animation doesn't fight it
+      cancelScrollEl(this.el);
+      return;
+    }
+
     if (this.config!.avoidElements) {
       let avoid: boolean = false;
       let element: any = ev.target;
@@ -221,7 +551,11 @@ export class SuperTabsContainerComponent implements ComponentInterface {
     }
 
     const coords = pointerCoord(ev);
-    this.updateWidth();
+
+    if (!this.hasObservedSize()) {
+      this.updateWidth();
+    }
+
     const vw = this.width;
     if (coords.x < this.leftThreshold || coords.x > vw - this.rightThreshold) {
       // ignore this gesture, it started in the side menu touch zone
@@ -232,21 +566,25 @@ export class SuperTabsContainerComponent implements ComponentInterface {
       this.initialTimestamp = getTs();
     }
 
+    // grab the container if it's still moving, the user takes over from here
+    this.interruptedTransition = cancelScrollEl(this.el);
+
+    this.preventClick = false;
+    this.pointerId = (ev as PointerEvent).pointerId;
+    const pos = this.vertical ? coords.y : coords.x;
+
     this.initialCoords = coords;
-    this.lastPosX = coords.x;
+    this.lastPos = pos;
+    this.velocitySamples = [{ pos, ts: getTs() }];
   }
 
-  @Listen('click', { passive: false, capture: true })
-  async onClick(ev: TouchEvent) {
-    if (this.isDragging) {
-      ev.stopImmediatePropagation();
-      ev.preventDefault();
+  private onGestureMove(ev: TouchEvent | PointerEvent) {
+    if (!this.swipeEnabled || !this.initialCoords || typeof this.lastPos !== 'number') {
+      return;
     }
-  }
 
-  @Listen('touchmove', { passive: true, capture: true })
-  async onTouchMove(ev: TouchEvent) {
-    if (!this.swipeEnabled || !this.initialCoords || typeof this.lastPosX !== 'number') {
+    if (this.pointerId !== (ev as PointerEvent).pointerId) {
+      // ignore any other pointer while a gesture is in progress
       return;
     }
 
@@ -254,14 +592,25 @@ export class SuperTabsContainerComponent implements ComponentInterface {
 
     if (!this.isDragging) {
       if (!checkGesture(coords, this.initialCoords, this.config!)) {
-        if (Math.abs(coords.y - this.initialCoords.y) > 100) {
+        const crossAxisDelta = this.vertical ? coords.x - this.initialCoords.x : coords.y - this.initialCoords.y;
+
+        if (Math.abs(crossAxisDelta) > 100) {
           this.initialCoords = void 0;
-          this.lastPosX = void 0;
+          this.lastPos = void 0;
         }
         return;
       }
 
       this.isDragging = true;
+
+      if (typeof this.pointerId === 'number') {
+        // keep receiving the pointer events even if the pointer leaves the container
+        try {
+          this.el.setPointerCapture(this.pointerId);
+        } catch (e) {
+          this.debug('setPointerCapture failed', e);
+        }
+      }
     }
 
     // stop anything else from capturing these events, to make sure the content doesn't slide
@@ -269,31 +618,43 @@ export class SuperTabsContainerComponent implements ComponentInterface {
       ev.stopImmediatePropagation();
     }
 
-    // get delta X
-    const deltaX: number = this.lastPosX! - coords.x;
+    // get the delta along the swipe axis, the swipe direction is mirrored in right-to-left layouts
+    const pos = this.vertical ? coords.y : coords.x;
+    const delta: number = (this.lastPos! - pos) * this.getDirection();
 
-    if (deltaX === 0) {
+    if (delta === 0) {
       return;
     }
 
-    const scrollX = Math.max(0, Math.min(this.scrollWidth - this.width, this.el.scrollLeft + deltaX));
+    const scrollStart = this.getScrollPosition();
+    const scrollX = Math.max(0, Math.min(this.scrollSize - this.size, scrollStart + delta));
 
-    if (Math.floor(scrollX) === Math.floor(this.el.scrollLeft)) {
+    if (Math.floor(scrollX) === Math.floor(scrollStart)) {
       return;
     }
 
     const index = Math.round(this.positionToIndex(scrollX) * 100) / 100;
     this.updateSelectedTabIndex(index);
 
-    // update last X value
-    this.lastPosX = coords.x;
+    // update last position
+    this.lastPos = pos;
+    this.addVelocitySample(pos);
 
-    this.el.scroll(scrollX, 0);
+    this.setScrollPosition(scrollX);
   }
 
-  @Listen('touchend', { passive: false, capture: true })
-  async onTouchEnd(ev: TouchEvent) {
+  private onGestureEnd(ev: TouchEvent | PointerEvent) {
+    if (this.pointerId !== (ev as PointerEvent).pointerId) {
+      return;
+    }
+
     if (!this.swipeEnabled || !this.isDragging) {
+      if (this.interruptedTransition && typeof this._activeTabIndex === 'number') {
+        // the container was stopped mid-way but not dragged, finish the transition
+        this.moveContainerByIndex(this._activeTabIndex, true);
+      }
+
+      this.resetGesture();
       return;
     }
 
@@ -301,46 +662,156 @@ export class SuperTabsContainerComponent implements ComponentInterface {
 
     const deltaTime: number = getTs() - this.initialTimestamp!;
     const shortSwipe = this.config!.shortSwipeDuration! > 0 && deltaTime <= this.config!.shortSwipeDuration!;
-    const shortSwipeDelta = coords.x - this.initialCoords!.x;
+    const direction = this.getDirection();
+    const pos = this.vertical ? coords.y : coords.x;
+    const initialPos = this.vertical ? this.initialCoords!.y : this.initialCoords!.x;
+    const shortSwipeDelta = (pos - initialPos) * direction;
+
+    const velocity = this.calcReleaseVelocity(pos) * direction;
+    const flingVelocity = this.config!.flingVelocity!;
+    const isFling = flingVelocity > 0 && Math.abs(velocity) >= flingVelocity;
 
     let selectedTabIndex = this.calcSelectedTab();
     const expectedTabIndex = Math.round(selectedTabIndex);
 
-    if (shortSwipe && expectedTabIndex === this._activeTabIndex) {
+    if (isFling) {
+      // a positive velocity means the pointer moved towards the end edge, so we're heading to the previous tab(s)
+      let tabCount = 1;
+
+      if (this.config!.multiTabFling && this.config!.multiTabFlingVelocity! > 0) {
+        tabCount += Math.floor((Math.abs(velocity) - flingVelocity) / this.config!.multiTabFlingVelocity!);
+      }
+
+      selectedTabIndex = velocity > 0 ? Math.ceil(selectedTabIndex) - tabCount : Math.floor(selectedTabIndex) + tabCount;
+    } else if (shortSwipe && expectedTabIndex === this._activeTabIndex) {
       selectedTabIndex += shortSwipeDelta > 0 ? -1 : 1;
     }
 
     selectedTabIndex = this.normalizeSelectedTab(selectedTabIndex);
-    this.updateActiveTabIndex(selectedTabIndex);
-    this.moveContainerByIndex(selectedTabIndex, true);
+    const transition = this.moveContainerByIndex(selectedTabIndex, true);
+    this.proposeActiveTabIndex(selectedTabIndex, transition);
+
+    // mouse & pen drags are followed by a click event, make sure it doesn't reach the content
+    const pointerType = (ev as PointerEvent).pointerType;
+    this.preventClick = pointerType === 'mouse' || pointerType === 'pen';
+    this.resetGesture();
+  }
+
+  private addVelocitySample(pos: number) {
+    const ts = getTs();
+    this.velocitySamples.push({ pos, ts });
+
+    // only keep the samples that are recent enough to describe the release velocity
+    while (this.velocitySamples.length > 2 && ts - this.velocitySamples[0].ts > velocitySampleWindow) {
+      this.velocitySamples.shift();
+    }
+  }
+
+  /**
+   * Calculates the pointer velocity in pixels per millisecond based on the most recent move samples and the
+   * release position.
+   */
+  private calcReleaseVelocity(pos: number): number {
+    const lastMove = this.velocitySamples[this.velocitySamples.length - 1];
+
+    if (!lastMove || getTs() - lastMove.ts > velocitySampleWindow) {
+      // the pointer stopped moving before it was released
+      return 0;
+    }
+
+    this.addVelocitySample(pos);
+
+    const samples = this.velocitySamples;
+    const first = samples[0];
+    const last = samples[samples.length - 1];
+    const deltaTime = last.ts - first.ts;
 
+    if (deltaTime <= 0) {
+      return 0;
+    }
+
+    return (last.pos - first.pos) / deltaTime;
+  }
+
+  private resetGesture() {
+    this.interruptedTransition = false;
+    this.velocitySamples = [];
     this.isDragging = false;
+    this.pointerId = void 0;
     this.initialCoords = void 0;
-    this.lastPosX = void 0;
+    this.lastPos = void 0;
+  }
+
+  /**
+   * Whether the size of the container is kept up to date by the resize observer, so it doesn't have to be measured.
+   * This is the case in `transform` mode, where the track doesn't depend on the scroll layout of the container.
+   */
+  private hasObservedSize(): boolean {
+    const renderMode = this.config && this.config.renderMode;
+    const vertical = !!this.config && this.config.orientation === 'vertical';
+
+    return !!this.resizeObserver && this.size > 0 && renderMode === 'transform' && this.renderMode === 'transform' &&
+      vertical === this.vertical;
   }
 
-  private updateWidth() {
-    const boundingRect = this.el.getBoundingClientRect();
-    this.width = Math.round(boundingRect.width * 10000) / 10000;
+  /**
+   * Updates the size of the container, measuring it unless the size reported by the resize observer is passed.
+   */
+  private updateWidth(rect: { width: number; height: number } = this.el.getBoundingClientRect()) {
+    this.width = Math.round(rect.width * 10000) / 10000;
+    this.vertical = !!this.config && this.config.orientation === 'vertical';
+    this.size = this.vertical ? Math.round(rect.height * 10000) / 10000 : this.width;
+    this.rtl = !this.vertical && isRTL(this.el);
+    this.updateRenderMode();
+  }
+
+  /**
+   * Switches between render modes, carrying the current position over.
+   */
+  private updateRenderMode() {
+    const renderMode = (this.config && this.config.renderMode) || 'scroll';
+
+    if (renderMode === this.renderMode) {
+      return;
+    }
+
+    this.debug('updateRenderMode', renderMode);
+
+    const position = this.getScrollPosition();
+    cancelScrollEl(this.el);
+    clearTimeout(this.snapScrollEndTimeout);
+    this.setScrollPosition(0);
+    this.renderMode = renderMode;
+    this.setScrollPosition(position);
   }
 
   private async indexTabs() {
-    if (this.width === 0) {
-      requestAnimationFrame(() => {
-        this.updateWidth();
-        this.indexTabs();
-      });
+    if (this.size === 0) {
+      // the container is hidden, the resize observer will index the tabs once it's shown
+      if (!this.resizeObserver) {
+        requestAnimationFrame(() => {
+          this.updateWidth();
+          this.indexTabs();
+        });
+      }
+
       return;
     }
 
     const tabs = Array.from(this.el.querySelectorAll('super-tab'));
 
-    this.scrollWidth = this.width * tabs.length;
+    this.scrollSize = this.size * tabs.length;
 
-    this.debug('indexTab', this.scrollWidth, this.width);
+    this.debug('indexTab', this.scrollSize, this.size);
 
     await Promise.all(tabs.map((t) => t.componentOnReady()));
     this.tabs = tabs;
+    this.followActiveTab();
+    this.applyTransitionEffect();
+
+    if (typeof this._activeTabIndex === 'number') {
+      this.updateActiveTabEl(Promise.resolve());
+    }
 
     if (this.ready && typeof this._activeTabIndex === 'number') {
       this.moveContainerByIndex(this._activeTabIndex, true);
@@ -369,6 +840,28 @@ export class SuperTabsContainerComponent implements ComponentInterface {
     }
   }
 
+  /**
+   * Keeps the active tab selected after the tabs were re-indexed, if the active tab has a `tabId`.
+   */
+  private followActiveTab() {
+    const activeTabId = this.activeTabEl && this.activeTabEl.tabId;
+
+    if (!activeTabId) {
+      return;
+    }
+
+    const index = this.tabs.findIndex((t) => t.tabId === activeTabId);
+
+    if (index === -1 || index === this._activeTabIndex) {
+      return;
+    }
+
+    this.debug('followActiveTab', activeTabId, this._activeTabIndex, index);
+
+    this._activeTabIndex = index;
+    this.activeTabIndexChange.emit(index);
+  }
+
   private lazyLoadTabs() {
     if (typeof this._activeTabIndex === 'undefined') {
       this.debug('lazyLoadTabs', 'called when _activeTabIndex is undefined');
@@ -390,39 +883,179 @@ export class SuperTabsContainerComponent implements ComponentInterface {
 
     const activeTab = this._activeTabIndex;
     const tabs = [...this.tabs];
+    const distance = Math.max(0, this.config!.lazyLoadDistance!);
+    const unload = this.config!.unloadWhenInvisible;
 
-    const min = activeTab - 1;
-    const max = activeTab + 1;
+    const min = activeTab - distance;
+    const max = activeTab + distance;
+
+    this.updateRecentTabs(tabs[activeTab]);
 
     let index = 0;
 
     for (const tab of tabs) {
       tab.visible = index >= min && index <= max;
 
-      tab.loaded = tab.visible || (this.config!.unloadWhenInvisible ? false : tab.loaded);
+      let loaded: boolean;
+
+      switch (tab.preload) {
+        case 'eager':
+          loaded = true;
+          break;
+
+        case 'never':
+          loaded = index === activeTab || (unload ? false : tab.loaded);
+          break;
+
+        default:
+          loaded = tab.visible || (unload ? false : tab.loaded);
+      }
+
+      if (tab.loaded && !loaded && !tab.keepAlive && this.recentTabs.indexOf(tab) === -1) {
+        this.unloadTab(tab);
+      } else {
+        this.unloadingTabs.delete(tab);
+        tab.loaded = tab.loaded || loaded;
+      }
 
       index++;
     }
     this.tabs = tabs;
+
+    this.scheduleIdlePreload();
+  }
+
+  /**
+   * Unloads the tab once it saved its state and emitted `tabWillUnload`, unless it was needed again in the meantime.
+   */
+  private async unloadTab(tab: HTMLSuperTabElement) {
+    if (this.unloadingTabs.has(tab)) {
+      return;
+    }
+
+    this.debug('unloading', tab.id);
+    this.unloadingTabs.add(tab);
+
+    await tab.emitLifecycleEvent('willUnload');
+
+    if (this.unloadingTabs.delete(tab)) {
+      tab.loaded = false;
+    }
+  }
+
+  /**
+   * Loads the remaining tabs one at a time while the browser is idle, starting with the ones closest to the active tab.
+   */
+  private scheduleIdlePreload() {
+    this.cancelIdlePreload && this.cancelIdlePreload();
+    this.cancelIdlePreload = undefined;
+
+    if (!this.config!.lazyLoad || !this.config!.preloadWhenIdle || this.config!.unloadWhenInvisible) {
+      return;
+    }
+
+    if (!this.getNextIdlePreloadTab()) {
+      return;
+    }
+
+    this.cancelIdlePreload = runWhenIdle(() => {
+      this.cancelIdlePreload = undefined;
+
+      const tab = this.getNextIdlePreloadTab();
+
+      if (tab) {
+        this.debug('idle preload', tab.id);
+        tab.loaded = true;
+        this.scheduleIdlePreload();
+      }
+    });
+  }
+
+  /**
+   * Moves the tab to the front of the recently visited tabs, which are kept loaded up to the `keepAliveTabs` limit.
+   */
+  private updateRecentTabs(tab: HTMLSuperTabElement | undefined) {
+    const recentTabs = this.recentTabs.filter((t) => t !== tab && this.tabs.indexOf(t) > -1);
+
+    if (tab) {
+      recentTabs.unshift(tab);
+    }
+
+    this.recentTabs = recentTabs.slice(0, Math.max(0, this.config!.keepAliveTabs!));
+  }
+
+  private getNextIdlePreloadTab(): HTMLSuperTabElement | undefined {
+    const activeTab = this._activeTabIndex || 0;
+    let next: HTMLSuperTabElement | undefined;
+    let nextDistance = Infinity;
+
+    this.tabs.forEach((tab, index) => {
+      const distance = Math.abs(index - activeTab);
+
+      if (!tab.loaded && tab.preload !== 'never' && distance < nextDistance) {
+        next = tab;
+        nextDistance = distance;
+      }
+    });
+
+    return next;
+  }
+
+  /**
+   * Returns the scroll position along the swipe axis, measured from the start edge.
+   */
+  private getScrollPosition(): number {
+    if (this.renderMode === 'transform') {
+      return this.trackPos;
+    }
+
+    return this.vertical ? this.el.scrollTop : getScrollStart(this.el, this.rtl);
+  }
+
+  private setScrollPosition(position: number) {
+    if (this.renderMode === 'transform') {
+      this.trackPos = position;
+
+      if (this.trackEl) {
+        const offset = this.rtl ? position : -position;
+        this.trackEl.style.transform = this.vertical ? `translate3d(0, ${-position}px, 0)` : `translate3d(${offset}px, 0, 0)`;
+      }
+
+      // there are no scroll events in this mode
+      this.applyTransitionEffect();
+      return;
+    }
+
+    if (this.vertical) {
+      this.el.scroll(0, position);
+    } else {
+      this.el.scroll(toScrollLeft(this.el, position, this.rtl), 0);
+    }
+  }
+
+  /**
+   * Returns `-1` if pointer movements along the swipe axis are mirrored, which is the case in right-to-left layouts.
+   */
+  private getDirection(): 1 | -1 {
+    return this.rtl ? -1 : 1;
   }
 
   private calcSelectedTab(): number {
-    const scrollX = Math.max(0, Math.min(this.scrollWidth - this.width, this.el.scrollLeft));
+    const scrollX = Math.max(0, Math.min(this.scrollSize - this.size, this.getScrollPosition()));
     return this.positionToIndex(scrollX);
   }
 
   private positionToIndex(scrollX: number) {
-    const tabWidth = this.width;
-    return scrollX / tabWidth;
+    return scrollX / this.size;
   }
 
   private indexToPosition(tabIndex: number) {
-    return Math.round(tabIndex * this.width * 10000) / 10000;
+    return Math.round(tabIndex * this.size * 10000) / 10000;
   }
 
   private normalizeSelectedTab(index: number): number {
-    const scrollX = Math.max(0, Math.min(this.scrollWidth - this.width, this.indexToPosition(index)));
-    return Math.round(scrollX / this.width);
+    const scrollX = Math.max(0, Math.min(this.scrollSize - this.size, this.indexToPosition(index)));
+    return Math.round(scrollX / this.size);
   }
 
   /**
@@ -433,6 +1066,14 @@ export class SuperTabsContainerComponent implements ComponentInterface {
   }
 
   render() {
-    return <slot></slot>;
+    const renderMode = this.config && this.config.renderMode;
+
+    return (
+      <Host class={{ vertical: this.vertical, transform: renderMode === 'transform', snap: renderMode === 'snap' && this.swipeEnabled }}>
+        <div class="track" ref={(el) => this.trackEl = el}>
+          <slot></slot>
+        </div>
+      </Host>
+    );
   }
 }
@@ -9,11 +9,27 @@ import {
   Listen,
   Method,
   Prop,
+  QueueApi,
   State,
   Watch,
 } from '@stencil/core';
 import { SuperTabsConfig } from '../interface';
-import { checkGesture, debugLog, getNormalizedScrollX, pointerCoord, scrollEl, STCoord } from '../utils';
+import {
+  cancelScrollEl,
+  checkGesture,
+  createResizeObserver,
+  debugLog,
+  getCSSEasing,
+  getEasing,
+  getNormalizedScrollX,
+  getScrollStart,
+  isRTL,
+  pointerCoord,
+  scrollEl,
+  STCoord,
+  STResizeObserver,
+  toScrollLeft,
+} from '../utils';
 
 
 @Component({
@@ -28,6 +44,9 @@ export class SuperTabsToolbarComponent implements ComponentInterface {
   /** @internal */
   @Prop({ mutable: true }) config?: SuperTabsConfig;
 
+  /** @internal */
+  @Prop({ context: 'queue' }) queue!: QueueApi;
+
   /**
    * Whether to show the indicator. Defaults to `true`
    */
@@ -87,7 +106,7 @@ export class SuperTabsToolbarComponent implements ComponentInterface {
   private indicatorEl: HTMLSuperTabIndicatorElement | undefined;
   private buttonsContainerEl: HTMLDivElement | undefined;
   private initialCoords?: STCoord;
-  private lastPosX: number | undefined;
+  private lastPos: number | undefined;
   private touchStartTs: number = 0;
   private lastClickTs: number = 0;
   private isDragging: boolean | undefined;
@@ -95,6 +114,20 @@ export class SuperTabsToolbarComponent implements ComponentInterface {
   private rightThreshold: number = 0;
   private slot!: HTMLSlotElement;
   private hostCls: any = {};
+  private rtl: boolean = false;
+  private resizeObserver?: STResizeObserver;
+
+  connectedCallback() {
+    if (!this.resizeObserver) {
+      this.resizeObserver = createResizeObserver(this.onResize.bind(this));
+    }
+
+    this.observeSizes();
+  }
+
+  disconnectedCallback() {
+    this.resizeObserver && this.resizeObserver.disconnect();
+  }
 
   async componentDidLoad() {
     this.setHostCls();
@@ -118,10 +151,31 @@ export class SuperTabsToolbarComponent implements ComponentInterface {
     this.updateWidth();
   }
 
+  /**
+   * Tracks the size of the toolbar and its buttons, so the indicator stays aligned when either of them changes.
+   */
+  private observeSizes() {
+    if (!this.resizeObserver) {
+      return;
+    }
+
+    this.resizeObserver.disconnect();
+    this.resizeObserver.observe(this.el);
+    this.buttons.forEach((b) => this.resizeObserver!.observe(b));
+  }
+
+  private onResize() {
+    this.queue.read(() => {
+      this.updateWidth();
+      this.alignIndicator(this.activeTabIndex, false);
+    });
+  }
+
   private updateWidth() {
     const cr = this.el.getBoundingClientRect();
     this.width = Math.round(cr.width * 100) / 100;
     this.offsetLeft = cr.left;
+    this.rtl = !this.isVertical() && isRTL(this.el);
   }
 
   /** @internal */
@@ -133,6 +187,7 @@ export class SuperTabsToolbarComponent implements ComponentInterface {
 
     this.activeTabIndex = index;
     this.markButtonActive(this.buttons[index]);
+    this.setFocusTarget(this.buttons[index]);
 
     if (align) {
       this.alignIndicator(index, animate);
@@ -156,8 +211,7 @@ export class SuperTabsToolbarComponent implements ComponentInterface {
       return Promise.resolve();
     }
 
-    scrollEl(this.buttonsContainerEl, scrollX, this.config!.nativeSmoothScroll!, animate ? this.config!.transitionDuration : 0);
-    return Promise.resolve();
+    return scrollEl(this.buttonsContainerEl, scrollX, this.config!.nativeSmoothScroll!, animate ? this.config!.transitionDuration : 0, this.isVertical(), getEasing(this.config)).finished;
   }
 
   private getButtonFromEv(ev: any): HTMLSuperTabButtonElement | undefined {
@@ -202,6 +256,90 @@ export class SuperTabsToolbarComponent implements ComponentInterface {
     this.buttonClick.emit(button);
   }
 
+  @Listen('keydown')
+  onKeyDown(ev: KeyboardEvent) {
+    const button = this.getButtonFromEv(ev);
+
+    if (!button) {
+      return;
+    }
+
+    const vertical = this.isVertical();
+    const nextKey = vertical ? 'ArrowDown' : this.rtl ? 'ArrowLeft' : 'ArrowRight';
+    const previousKey = vertical ? 'ArrowUp' : this.rtl ? 'ArrowRight' : 'ArrowLeft';
+    let target: HTMLSuperTabButtonElement | undefined;
+
+    switch (ev.key) {
+      case nextKey:
+        target = this.getNextEnabledButton(button, 1);
+        break;
+      case previousKey:
+        target = this.getNextEnabledButton(button, -1);
+        break;
+      case 'Home':
+        target = this.buttons.find((b) => !b.disabled);
+        break;
+      case 'End':
+        target = [...this.buttons].reverse().find((b) => !b.disabled);
+        break;
+      case 'Enter':
+      case ' ':
+      case 'Spacebar':
+        ev.preventDefault();
+
+        if (!button.disabled) {
+          this.onButtonClick(button);
+        }
+        return;
+      default:
+        return;
+    }
+
+    ev.preventDefault();
+
+    if (!target || target === button) {
+      return;
+    }
+
+    this.setFocusTarget(target);
+    target.focus();
+
+    if (this.config!.keyboardActivation !== 'manual') {
+      this.onButtonClick(target);
+    }
+  }
+
+  /**
+   * Returns the next enabled button in the given direction, wrapping around the ends of the toolbar.
+   */
+  private getNextEnabledButton(button: HTMLSuperTabButtonElement, direction: 1 | -1): HTMLSuperTabButtonElement | undefined {
+    const count = this.buttons.length;
+    const start = this.buttons.indexOf(button);
+
+    for (let i = 1; i < count; i++) {
+      const candidate = this.buttons[(start + direction * i + count) % count];
+
+      if (!candidate.disabled) {
+        return candidate;
+      }
+    }
+
+    return;
+  }
+
+  /**
+   * Makes the given button the only one that is reachable with the Tab key (roving tabindex).
+   */
+  private setFocusTarget(button: HTMLSuperTabButtonElement | undefined) {
+    if (!button) {
+      return;
+    }
+
+    for (const b of this.buttons) {
+      b.focusTarget = b === button;
+    }
+  }
+
   @Listen('touchstart')
   async onTouchStart(ev: TouchEvent) {
     if (!this.scrollable) {
@@ -218,26 +356,34 @@ export class SuperTabsToolbarComponent implements ComponentInterface {
       return;
     }
 
+    if (this.buttonsContainerEl) {
+      // stop any running scroll animation, the user takes over from here
+      cancelScrollEl(this.buttonsContainerEl);
+    }
+
     this.touchStartTs = Date.now();
     this.initialCoords = coords;
-    this.lastPosX = coords.x;
+    this.lastPos = this.isVertical() ? coords.y : coords.x;
   }
 
   @Listen('touchmove', { passive: true, capture: true })
   async onTouchMove(ev: TouchEvent) {
-    if (!this.buttonsContainerEl || !this.scrollable || !this.initialCoords || typeof this.lastPosX !== 'number') {
+    if (!this.buttonsContainerEl || !this.scrollable || !this.initialCoords || typeof this.lastPos !== 'number') {
       return;
     }
 
     const coords = pointerCoord(ev);
+    const vertical = this.isVertical();
 
     if (!this.isDragging) {
       const shouldCapture = checkGesture(coords, this.initialCoords!, this.config!);
 
       if (!shouldCapture) {
-        if (Math.abs(coords.y - this.initialCoords.y) > 100) {
+        const crossAxisDelta = vertical ? coords.x - this.initialCoords.x : coords.y - this.initialCoords.y;
+
+        if (Math.abs(crossAxisDelta) > 100) {
           this.initialCoords = void 0;
-          this.lastPosX = void 0;
+          this.lastPos = void 0;
         }
         return;
       }
@@ -252,15 +398,16 @@ export class SuperTabsToolbarComponent implements ComponentInterface {
 
     ev.stopImmediatePropagation();
 
-    // get delta X
-    const deltaX: number = this.lastPosX - coords.x;
+    // get the delta along the swipe axis, the swipe direction is mirrored in right-to-left layouts
+    const pos = vertical ? coords.y : coords.x;
+    const delta: number = (this.lastPos - pos) * (this.rtl ? -1 : 1);
 
-    if (deltaX === 0) {
+    if (delta === 0) {
       return;
     }
 
-    // update last X value
-    this.lastPosX = coords.x;
+    // update last position
+    this.lastPos = pos;
 
     requestAnimationFrame(() => {
       if (!this.isDragging) {
@@ -269,14 +416,26 @@ export class SuperTabsToolbarComponent implements ComponentInterface {
         return;
       }
 
+      const el = this.buttonsContainerEl!;
+
       // scroll container
-      const scrollX = getNormalizedScrollX(this.buttonsContainerEl!, this.buttonsContainerEl!.clientWidth, deltaX);
+      if (vertical) {
+        const scrollY = Math.max(0, Math.min(el.scrollHeight - el.clientHeight, el.scrollTop + delta));
+
+        if (scrollY !== el.scrollTop) {
+          el.scroll(0, scrollY);
+        }
+
+        return;
+      }
 
-      if (scrollX === this.buttonsContainerEl!.scrollLeft) {
+      const scrollX = getNormalizedScrollX(el, el.clientWidth, delta, this.rtl);
+
+      if (scrollX === getScrollStart(el, this.rtl)) {
         return;
       }
 
-      this.buttonsContainerEl!.scroll(scrollX, 0);
+      el.scroll(toScrollLeft(el, scrollX, this.rtl), 0);
     });
   }
 
@@ -297,7 +456,7 @@ export class SuperTabsToolbarComponent implements ComponentInterface {
 
     this.isDragging = false;
     this.initialCoords = void 0;
-    this.lastPosX = void 0;
+    this.lastPos = void 0;
   }
 
   @Watch('color')
@@ -341,6 +500,8 @@ export class SuperTabsToolbarComponent implements ComponentInterface {
     }
 
     this.buttons = buttons;
+    this.observeSizes();
+    this.setFocusTarget(this.activeButton || buttons[0]);
   }
 
   private updateThresholds() {
@@ -385,10 +546,13 @@ export class SuperTabsToolbarComponent implements ComponentInterface {
 
     let pos: number;
 
-    const ip = this.indicatorPosition!;
+    const vertical = this.isVertical();
     const iw = this.indicatorWidth!;
-    const mw = this.buttonsContainerEl.clientWidth;
-    const sp = this.buttonsContainerEl.scrollLeft;
+    const mw = vertical ? this.buttonsContainerEl.clientHeight : this.buttonsContainerEl.clientWidth;
+    const sp = vertical ? this.buttonsContainerEl.scrollTop : getScrollStart(this.buttonsContainerEl, this.rtl);
+
+    // the indicator position is measured from the left edge, while the scroll position is measured from the start edge
+    const ip = this.rtl ? this.buttonsContainerEl.scrollWidth - this.indicatorPosition! - iw : this.indicatorPosition!;
 
     const centerDelta = ((mw / 2 - iw / 2));
 
@@ -397,10 +561,10 @@ export class SuperTabsToolbarComponent implements ComponentInterface {
     const c = Math.floor((mw + sp));
 
     if (a > c) {
-      // we need to move the segment container to the left
+      // we need to move the segment container towards the end
       pos = ip + iw + centerDelta - mw;
     } else if (b < sp) {
-      // we need to move the segment container to the right
+      // we need to move the segment container towards the start
       pos = Math.max(ip - centerDelta, 0);
       pos = pos > ip ? ip - mw + iw : pos;
     } else {
@@ -408,7 +572,7 @@ export class SuperTabsToolbarComponent implements ComponentInterface {
     }
 
     if (!animate) {
-      scrollEl(this.buttonsContainerEl, pos!, false, 50);
+      scrollEl(this.buttonsContainerEl, pos!, false, 50, vertical, getEasing(this.config));
     } else {
       this.moveContainer(pos!, animate);
     }
@@ -437,8 +601,10 @@ export class SuperTabsToolbarComponent implements ComponentInterface {
       return;
     }
 
-    let position = button.offsetLeft;
-    let width = button.clientWidth;
+    const vertical = this.isVertical();
+
+    let position = vertical ? button.offsetTop : button.offsetLeft;
+    let width = vertical ? button.clientHeight : button.clientWidth;
 
     if (isDragging && floor !== ceil) {
       const buttonB = this.buttons[ceil];
@@ -450,8 +616,8 @@ export class SuperTabsToolbarComponent implements ComponentInterface {
         return;
       }
 
-      const buttonBPosition = buttonB.offsetLeft;
-      const buttonBWidth = buttonB.clientWidth;
+      const buttonBPosition = vertical ? buttonB.offsetTop : buttonB.offsetLeft;
+      const buttonBWidth = vertical ? buttonB.clientHeight : buttonB.clientWidth;
 
       position += remainder * (buttonBPosition - position);
       width += remainder * (buttonBWidth - width);
@@ -465,12 +631,26 @@ export class SuperTabsToolbarComponent implements ComponentInterface {
         this.adjustContainerScroll(animate || !isDragging);
       }
 
-      this.indicatorEl!.style.setProperty('--st-indicator-position-x', this.indicatorPosition + 'px');
-      this.indicatorEl!.style.setProperty('--st-indicator-scale-x', String(this.indicatorWidth! / 100));
+      const axis = vertical ? 'y' : 'x';
+
+      this.indicatorEl!.style.setProperty(`--st-indicator-position-${axis}`, this.indicatorPosition + 'px');
+      this.indicatorEl!.style.setProperty(`--st-indicator-scale-${axis}`, String(this.indicatorWidth! / 100));
       this.indicatorEl!.style.setProperty('--st-indicator-transition-duration', this.isDragging ? '0' : `${this.config!.transitionDuration}ms`);
+
+      const timingFunction = getCSSEasing(this.config);
+
+      if (timingFunction) {
+        this.indicatorEl!.style.setProperty('--st-indicator-transition-timing-function', timingFunction);
+      } else {
+        this.indicatorEl!.style.removeProperty('--st-indicator-transition-timing-function');
+      }
     });
   }
 
+  private isVertical(): boolean {
+    return !!this.config && this.config.orientation === 'vertical';
+  }
+
   /**
    * Internal method to output values in debug mode.
    */
@@ -480,7 +660,9 @@ export class SuperTabsToolbarComponent implements ComponentInterface {
 
   render() {
     return (
-      <Host role="navigation" class={this.hostCls}>
+      <Host role="tablist"
+            aria-orientation={this.isVertical() ? 'vertical' : 'horizontal'}
+            class={{ ...this.hostCls, vertical: this.isVertical() }}>
         <div class="buttons-container" ref={(ref: any) => this.setButtonsContainerEl(ref)}>
           <slot/>
           {this.showIndicator &&
@@ -9,10 +9,20 @@ import {
   Listen,
   Method,
   Prop,
+  State,
   Watch,
 } from '@stencil/core';
-import { SuperTabChangeEventDetail, SuperTabsConfig } from '../interface';
-import { debugLog, DEFAULT_CONFIG } from '../utils';
+import {
+  SuperTabBeforeChangeEventDetail,
+  SuperTabChangeEventDetail,
+  SuperTabChangeSource,
+  SuperTabItem,
+  SuperTabsConfig,
+} from '../interface';
+import { syncButtons, syncTabs } from '../items';
+import { getStorage, PersistedTabsState, readPersistedState, writePersistedState } from '../persistence';
+import { readUrlTab, writeUrlTab } from '../url';
+import { debugLog, DEFAULT_CONFIG, resizeObserverAvailable } from '../utils';
 
 
 const maxInitRetries: number = 1e3;
@@ -40,6 +50,17 @@ export class SuperTabsComponent implements ComponentInterface {
    */
   @Event() tabChange!: EventEmitter<SuperTabChangeEventDetail>;
 
+  /**
+   * Before tab change event.
+   *
+   * This event fires up before the active tab changes, regardless of whether the change was triggered by a swipe,
+   * a tab button click or a call to `selectTab`.
+   *
+   * Calling `preventDefault()` on this event will cancel the change and move the container and the toolbar back to
+   * the current tab.
+   */
+  @Event({ cancelable: true }) beforeTabChange!: EventEmitter<SuperTabBeforeChangeEventDetail>;
+
   /**
    * Global Super Tabs configuration.
    *
@@ -58,10 +79,44 @@ export class SuperTabsComponent implements ComponentInterface {
    */
   @Prop({ reflectToAttr: true, mutable: true }) activeTabIndex: number = 0;
 
+  /**
+   * Initial active tab id.
+   *
+   * If set, this takes precedence over `activeTabIndex`. This property is kept up to date with the `tabId` of
+   * the active tab, and is `undefined` when the active tab has no `tabId`.
+   *
+   * @type {string}
+   */
+  @Prop({ reflectToAttr: true, mutable: true }) activeTabId?: string;
+
+  /**
+   * Tabs to generate.
+   *
+   * For every item, a `super-tab-button` is added to the toolbar and a `super-tab` is added to the container.
+   * The toolbar and the container are created if they don't exist yet. The generated elements are updated in place
+   * when a new array is passed, so tabs that are kept, moved or renamed keep their state.
+   *
+   * @type {SuperTabItem[]}
+   */
+  @Prop() items?: SuperTabItem[];
+
+  /**
+   * Key to save the active tab under, so it is restored when the page is loaded again.
+   *
+   * The storage is set with the `persistStorage` configuration option, and the scroll offsets of the tabs are saved
+   * as well when `persistScroll` is enabled. The saved tab takes precedence over `activeTabIndex` and `activeTabId`.
+   *
+   * @type {string}
+   */
+  @Prop() persistKey?: string;
+
   private container!: HTMLSuperTabsContainerElement;
   private toolbar!: HTMLSuperTabsToolbarElement;
-  private _config: SuperTabsConfig = DEFAULT_CONFIG;
+  @State() private _config: SuperTabsConfig = DEFAULT_CONFIG;
   private initAttempts: number = 0;
+  private childrenObserver?: MutationObserver;
+  private itemButtons: Map<string, HTMLSuperTabButtonElement> = new Map();
+  private itemTabs: Map<string, HTMLSuperTabElement> = new Map();
   private readonly initPromise: Promise<void>;
   private initPromiseResolve!: Function;
 
@@ -88,6 +143,7 @@ export class SuperTabsComponent implements ComponentInterface {
   /**
    * Set the selected tab.
    * This will move the container and the toolbar to the selected tab.
+   * Resolves when the transition is done, or when it was interrupted by another tab change or a swipe.
    * @param index {number} the index of the tab you want to select
    * @param [animate=true] {boolean} whether you want to animate the transition
    * @param [emit=true] {boolean} whether you want to emit tab change event
@@ -98,21 +154,53 @@ export class SuperTabsComponent implements ComponentInterface {
 
     await this.initPromise;
 
+    if (!await this.canChangeTab(index, this.activeTabIndex, 'method')) {
+      return;
+    }
+
+    await this.changeTab(index, animate, emit, 'method');
+  }
+
+  /**
+   * Set the selected tab by its `tabId`.
+   * This will move the container and the toolbar to the selected tab.
+   * @param tabId {string} the `tabId` of the tab you want to select
+   * @param [animate=true] {boolean} whether you want to animate the transition
+   * @param [emit=true] {boolean} whether you want to emit tab change event
+   */
+  @Method()
+  async selectTabById(tabId: string, animate: boolean = true, emit: boolean = true) {
+    await this.initPromise;
+
+    const index = this.getTabIndexById(tabId);
+
+    if (index === -1) {
+      this.debug('selectTabById', 'no tab found with id', tabId);
+      return;
+    }
+
+    await this.selectTab(index, animate, emit);
+  }
+
+  private async changeTab(index: number, animate: boolean, emit: boolean, source: SuperTabChangeSource) {
     const lastIndex = this.activeTabIndex;
+    const transitions: Promise<void>[] = [];
 
     if (this.container) {
-      await this.container.setActiveTabIndex(index, true, animate);
+      transitions.push(this.container.setActiveTabIndex(index, true, animate));
     }
 
     if (this.toolbar) {
-      await this.toolbar.setActiveTab(index, true, animate);
+      transitions.push(this.toolbar.setActiveTab(this.getButtonIndex(index), true, animate));
     }
 
     if (emit) {
-      this.emitTabChangeEvent(index, lastIndex);
+      this.emitTabChangeEvent(index, source, lastIndex);
     }
 
-    this.activeTabIndex = lastIndex;
+    this.updateActiveTab(index);
+
+    await Promise.all(transitions);
   }
 
   @Watch('config')
@@ -122,15 +210,94 @@ export class SuperTabsComponent implements ComponentInterface {
 
   @Listen('resize', { target: 'window', capture: false, passive: true })
   onWindowResize() {
+    if (resizeObserverAvailable) {
+      // the container and the toolbar keep track of their own size
+      return;
+    }
+
     this.debug('onWindowResize');
-    this.toolbar && this.toolbar.setSelectedTab(this.activeTabIndex);
+    this.toolbar && this.toolbar.setSelectedTab(this.getButtonIndex(this.activeTabIndex));
     this.container.reindexTabs();
+    this.ensureActiveTabInRange('resize');
+  }
+
+  @Listen('pagehide', { target: 'window' })
+  onPageHide() {
+    if (this._config.persistScroll) {
+      // the scroll offsets aren't saved on every scroll, save them one last time
+      this.persistState();
+    }
+  }
+
+  @Listen('popstate', { target: 'window' })
+  async onPopState() {
+    if (!this._config.urlSync) {
+      return;
+    }
+
+    await this.initPromise;
+
+    const index = this.getUrlTabIndex();
+
+    if (index === -1 || index === this.activeTabIndex) {
+      return;
+    }
+
+    this.debug('onPopState', index);
+
+    if (!await this.canChangeTab(index, this.activeTabIndex, 'url')) {
+      // point the URL back to the current tab
+      this.updateUrl(true);
+      return;
+    }
+
+    await this.changeTab(index, true, true, 'url');
+  }
+
+  disconnectedCallback() {
+    this.childrenObserver && this.childrenObserver.disconnect();
   }
 
   async componentWillLoad() {
     if (this.config) {
       await this.setConfig(this.config);
     }
+
+    this.syncItems();
+  }
+
+  @Watch('items')
+  onItemsChange() {
+    this.syncItems();
+  }
+
+  /**
+   * Generates the buttons and tabs described by `items`.
+   * The components pick up the new children on their own, through `slotchange`.
+   */
+  private syncItems() {
+    if (!this.items) {
+      return;
+    }
+
+    this.debug('syncItems', this.items);
+
+    let toolbar = this.el.querySelector('super-tabs-toolbar');
+    let container = this.el.querySelector('super-tabs-container');
+
+    if (!toolbar) {
+      toolbar = document.createElement('super-tabs-toolbar');
+      toolbar.slot = 'top';
+      this.el.appendChild(toolbar);
+    }
+
+    if (!container) {
+      container = document.createElement('super-tabs-container');
+      this.el.appendChild(container);
+    }
+
+    syncButtons(toolbar, this.items, this.itemButtons);
+    syncTabs(container, this.items, this.itemTabs);
   }
 
   componentDidLoad() {
@@ -139,18 +306,38 @@ export class SuperTabsComponent implements ComponentInterface {
     // index children
     this.indexChildren();
 
-    // set the selected tab so the toolbar & container are aligned and in sync
+    if (this.activeTabId) {
+      const index = this.getTabIndexById(this.activeTabId);
 
-    if (this.activeTabIndex > 0) {
-      if (this.container) {
-        this.container.setActiveTabIndex(this.activeTabIndex, true, false);
+      if (index > -1) {
+        this.activeTabIndex = index;
       }
+    }
+
+    this.restorePersistedState();
+
+    if (this._config.urlSync) {
+      // the URL takes precedence, so shared links open the right tab
+      const index = this.getUrlTabIndex();
 
-      if (this.toolbar) {
-        this.toolbar.setActiveTab(this.activeTabIndex, true, false);
+      if (index > -1) {
+        this.activeTabIndex = index;
       }
     }
 
+    this.updateActiveTab(this.activeTabIndex, true);
+
+    // set the selected tab so the toolbar & container are aligned and in sync
+    // the container needs to know about the active tab even if it's the first one, to fire the tab lifecycle events
+
+    if (this.container) {
+      this.container.setActiveTabIndex(this.activeTabIndex, true, false);
+    }
+
+    if (this.toolbar && this.getButtonIndex(this.activeTabIndex) > 0) {
+      this.toolbar.setActiveTab(this.getButtonIndex(this.activeTabIndex), true, false);
+    }
+
     // listen to `slotchange` event to detect any changes in children
     this.el.shadowRoot!.addEventListener('slotchange', this.onSlotchange.bind(this));
 
@@ -171,14 +358,12 @@ export class SuperTabsComponent implements ComponentInterface {
       }
     }
 
-    if (this.activeTabIndex > 0) {
-      if (this.container) {
-        this.container.moveContainerByIndex(this.activeTabIndex, false);
-      }
+    if (this.activeTabIndex > 0 && this.container) {
+      this.container.moveContainerByIndex(this.activeTabIndex, false);
+    }
 
-      if (this.toolbar) {
-        this.toolbar.setActiveTab(this.activeTabIndex, true);
-      }
+    if (this.toolbar && this.getButtonIndex(this.activeTabIndex) > 0) {
+      this.toolbar.setActiveTab(this.getButtonIndex(this.activeTabIndex), true);
     }
 
     this.propagateConfig();
@@ -211,11 +396,11 @@ export class SuperTabsComponent implements ComponentInterface {
     this.debug('onContainerSelectedTabChange called with: ', ev);
 
     if (this.toolbar) {
-      await this.toolbar.setSelectedTab(ev.detail);
+      await this.toolbar.setSelectedTab(this.getSelectedButtonIndex(ev.detail));
     }
   }
 
-  private emitTabChangeEvent(newIndex: number, oldIndex?: number) {
+  private emitTabChangeEvent(newIndex: number, source: SuperTabChangeSource, oldIndex?: number) {
     if (typeof (newIndex as unknown) !== 'number' || newIndex < 0) {
       return;
     }
@@ -224,33 +409,269 @@ export class SuperTabsComponent implements ComponentInterface {
       oldIndex = this.activeTabIndex;
     }
 
+    const tab: HTMLSuperTabElement | undefined = this.getTabs()[newIndex];
+
     this.tabChange.emit({
       changed: newIndex !== oldIndex,
       index: newIndex,
+      previousIndex: oldIndex,
+      source,
+      tab,
+      tabId: tab ? tab.tabId : undefined,
     });
   }
 
-  private onContainerActiveTabChange(ev: any) {
+  private async onContainerActiveTabChange(ev: any) {
     this.debug('onContainerActiveTabChange', ev);
     const index: number = ev.detail;
+    const tab: HTMLSuperTabElement | undefined = this.getTabs()[index];
+
+    if (index !== this.activeTabIndex && this.activeTabId && tab && tab.tabId === this.activeTabId) {
+      // the tabs were re-indexed and the active tab has a new index
+      this.debug('onContainerActiveTabChange', 'active tab moved to a new index', index);
+      this.activeTabIndex = index;
+      this.toolbar && this.toolbar.setActiveTab(this.getButtonIndex(index), true, false);
+      this.updateUrl(true);
+      this.persistState();
+      return;
+    }
 
-    this.emitTabChangeEvent(index);
+    if (!await this.canChangeTab(index, this.activeTabIndex, 'swipe')) {
+      this.restoreActiveTab();
+      return;
+    }
 
-    this.activeTabIndex = index;
+    if (index !== this.activeTabIndex && this.container) {
+      // the container waits for the guards before the swiped to tab becomes active
+      this.container.setActiveTabIndex(index, true, true);
+    }
 
-    this.toolbar && this.toolbar.setActiveTab(index, true, true);
+    this.emitTabChangeEvent(index, 'swipe');
+
+    this.updateActiveTab(index);
+
+    this.toolbar && this.toolbar.setActiveTab(this.getButtonIndex(index), true, true);
   }
 
-  private onToolbarButtonClick(ev: any) {
+  private async onToolbarButtonClick(ev: any) {
     this.debug('onToolbarButtonClick', ev);
 
-    const { index } = ev.detail;
+    const button: HTMLSuperTabButtonElement = ev.detail;
+    let index = button.index as number;
+
+    if (button.tabId) {
+      const tabIndex = this.getTabIndexById(button.tabId);
+
+      if (tabIndex > -1) {
+        index = tabIndex;
+      }
+    }
+
+    if (!await this.canChangeTab(index, this.activeTabIndex, 'click')) {
+      this.restoreActiveTab();
+      return;
+    }
 
     this.container && this.container.setActiveTabIndex(index, true, true);
 
-    this.emitTabChangeEvent(index);
+    this.emitTabChangeEvent(index, 'click');
+
+    this.updateActiveTab(index);
+  }
+
+  private updateActiveTab(index: number, initial: boolean = false) {
+    const tab: HTMLSuperTabElement | undefined = this.getTabs()[index];
 
     this.activeTabIndex = index;
+    this.activeTabId = tab ? tab.tabId : undefined;
+
+    this.updateUrl(initial);
+
+    if (!initial) {
+      // the restored scroll offsets may not be applied yet, only save once the user moves to another tab
+      this.persistState();
+    }
+  }
+
+  /**
+   * Restores the saved active tab and scroll offsets, when `persistKey` is set.
+   */
+  private restorePersistedState() {
+    const storage = this.persistKey ? getStorage(this._config.persistStorage) : undefined;
+    const state = storage && readPersistedState(storage, this.persistKey!);
+
+    if (!state) {
+      return;
+    }
+
+    this.debug('restorePersistedState', state);
+
+    const tabs = this.getTabs();
+    // a saved tab that no longer exists is ignored, rather than selecting whichever tab took its index
+    const index = state.tabId ? this.getTabIndexById(state.tabId) : state.index;
+
+    if (index > -1 && index < tabs.length) {
+      this.activeTabIndex = index;
+    }
+
+    if (this._config.persistScroll && state.scroll) {
+      tabs.forEach((tab, i) => {
+        const scroll = state.scroll![tab.tabId || String(i)];
+        scroll && tab.setScrollState(scroll);
+      });
+    }
+  }
+
+  /**
+   * Saves the active tab, and the scroll offsets of the tabs if `persistScroll` is enabled, when `persistKey` is set.
+   */
+  private async persistState() {
+    const key = this.persistKey;
+    const storage = key ? getStorage(this._config.persistStorage) : undefined;
+
+    if (!key || !storage) {
+      return;
+    }
+
+    const state: PersistedTabsState = { tabId: this.activeTabId, index: this.activeTabIndex };
+
+    if (this._config.persistScroll) {
+      const tabs = this.getTabs();
+      const offsets = await Promise.all(tabs.map((tab) => tab.getScrollState()));
+      state.scroll = {};
+
+      tabs.forEach((tab, i) => {
+        const scroll = offsets[i];
+        scroll && (state.scroll![tab.tabId || String(i)] = scroll);
+      });
+    }
+
+    writePersistedState(storage, key, state);
+  }
+
+  /**
+   * Reflects the active tab into the URL, when `urlSync` is enabled.
+   */
+  private updateUrl(replace: boolean) {
+    const sync = this._config.urlSync;
+
+    if (!sync || !this.getTabs()[this.activeTabIndex]) {
+      return;
+    }
+
+    writeUrlTab(sync, this.activeTabId || String(this.activeTabIndex), replace);
+  }
+
+  /**
+   * Returns the index of the tab stored in the URL, or `-1` if the URL doesn't point to a tab.
+   */
+  private getUrlTabIndex(): number {
+    const value = this._config.urlSync && readUrlTab(this._config.urlSync);
+
+    if (!value) {
+      return -1;
+    }
+
+    const index = this.getTabIndexById(value);
+
+    if (index > -1) {
+      return index;
+    }
+
+    const tabIndex = /^\d+$/.test(value) ? parseInt(value, 10) : -1;
+    return tabIndex < this.getTabs().length ? tabIndex : -1;
+  }
+
+  /**
+   * Checks whether the active tab is allowed to change by emitting the `beforeTabChange` event and
+   * running the `canLeave` and `canEnter` guards of the affected tabs.
+   */
+  private async canChangeTab(index: number, previousIndex: number, source: SuperTabChangeSource): Promise<boolean> {
+    if (index === previousIndex) {
+      return true;
+    }
+
+    const ev = this.beforeTabChange.emit({ index, previousIndex, source });
+
+    if (ev.defaultPrevented) {
+      this.debug('canChangeTab', 'beforeTabChange was prevented', index, previousIndex);
+      return false;
+    }
+
+    const tabs = this.getTabs();
+    const previousTab = tabs[previousIndex];
+    const nextTab = tabs[index];
+
+    try {
+      if (previousTab && typeof previousTab.canLeave === 'function' && !await previousTab.canLeave()) {
+        this.debug('canChangeTab', 'rejected by canLeave', previousIndex);
+        return false;
+      }
+
+      if (nextTab && typeof nextTab.canEnter === 'function' && !await nextTab.canEnter()) {
+        this.debug('canChangeTab', 'rejected by canEnter', index);
+        return false;
+      }
+    } catch (e) {
+      this.debug('canChangeTab', 'guard threw an error', e);
+      return false;
+    }
+
+    return true;
+  }
+
+  private getTabs(): HTMLSuperTabElement[] {
+    return this.container ? Array.from(this.container.querySelectorAll('super-tab')) : [];
+  }
+
+  private getTabIndexById(tabId: string): number {
+    return this.getTabs().findIndex((t) => t.tabId === tabId);
+  }
+
+  /**
+   * Returns the index of the toolbar button that belongs to the tab, matching them by `tabId` when the tab has one.
+   */
+  private getButtonIndex(tabIndex: number): number {
+    const tab = this.getTabs()[tabIndex];
+
+    if (!this.toolbar || !tab || !tab.tabId) {
+      return tabIndex;
+    }
+
+    const buttons: HTMLSuperTabButtonElement[] = Array.from(this.toolbar.querySelectorAll('super-tab-button'));
+    const buttonIndex = buttons.findIndex((b) => b.tabId === tab.tabId);
+
+    return buttonIndex > -1 ? buttonIndex : tabIndex;
+  }
+
+  /**
+   * Maps a selected tab index, which is a decimal while the container moves between tabs, to the toolbar buttons.
+   */
+  private getSelectedButtonIndex(selectedTabIndex: number): number {
+    const floor = Math.floor(selectedTabIndex);
+    const progress = selectedTabIndex - floor;
+    const from = this.getButtonIndex(floor);
+
+    if (progress === 0) {
+      return from;
+    }
+
+    const to = this.getButtonIndex(floor + 1);
+
+    if (Math.abs(to - from) !== 1) {
+      // the buttons aren't next to each other, jump from one to the other halfway
+      return progress < 0.5 ? from : to;
+    }
+
+    return from + (to - from) * progress;
+  }
+
+  /**
+   * Moves the container and the toolbar back to the current active tab after a rejected tab change.
+   */
+  private restoreActiveTab() {
+    this.container && this.container.moveContainerByIndex(this.activeTabIndex, true);
+    this.toolbar && this.toolbar.setActiveTab(this.getButtonIndex(this.activeTabIndex), true, true);
   }
 
   private indexChildren() {
@@ -268,14 +689,74 @@ export class SuperTabsComponent implements ComponentInterface {
     }
 
     this.propagateConfig();
+    this.observeChildren();
+    this.linkTabsAndButtons();
+  }
+
+  /**
+   * Watches the tabs and the buttons, to keep the accessibility attributes linking them up to date.
+   */
+  private observeChildren() {
+    if (typeof MutationObserver !== 'function') {
+      return;
+    }
+
+    if (!this.childrenObserver) {
+      this.childrenObserver = new MutationObserver(() => this.linkTabsAndButtons());
+    }
+
+    this.childrenObserver.disconnect();
+    this.container && this.childrenObserver.observe(this.container, { childList: true });
+    this.toolbar && this.childrenObserver.observe(this.toolbar, { childList: true });
+  }
+
+  /**
+   * Links every toolbar button with the tab it controls using `aria-controls` and `aria-labelledby`.
+   */
+  private linkTabsAndButtons() {
+    if (!this.toolbar) {
+      return;
+    }
+
+    const tabs = this.getTabs();
+    const buttons: HTMLSuperTabButtonElement[] = Array.from(this.toolbar.querySelectorAll('super-tab-button'));
+
+    buttons.forEach((button, i) => {
+      const tab = button.tabId ? tabs.find((t) => t.tabId === button.tabId) : tabs[i];
+
+      button.controls = tab ? tab.id : undefined;
+
+      if (tab) {
+        tab.labelledBy = button.id;
+      }
+    });
   }
 
   private async onSlotchange() {
     // re-index the child components
     this.indexChildren();
 
-    // reselect the current tab to ensure that we're on the correct tab
-    this.selectTab(this.activeTabIndex, true, false);
+    await this.initPromise;
+
+    if (!this.ensureActiveTabInRange('slotchange')) {
+      // reselect the current tab to ensure that we're on the correct tab
+      this.changeTab(this.activeTabIndex, true, false, 'slotchange');
+    }
+  }
+
+  /**
+   * Selects the last tab if the active tab index is no longer valid, e.g. after the active tab was removed.
+   * Returns `true` if the active tab had to be changed.
+   */
+  private ensureActiveTabInRange(source: SuperTabChangeSource): boolean {
+    const tabCount = this.getTabs().length;
+
+    if (tabCount === 0 || this.activeTabIndex < tabCount) {
+      return false;
+    }
+
+    this.changeTab(tabCount - 1, true, true, source);
+    return true;
   }
 
   /**
@@ -286,13 +767,16 @@ export class SuperTabsComponent implements ComponentInterface {
   }
 
   render() {
-    // Render 3 slots
+    // Render 5 slots
     // Top & bottom slots allow the toolbar position to be configurable via slots.
+    // Left & right slots are used to position the toolbar next to the container in vertical mode.
     // The nameless slot is used to hold the `super-tabs-container`.
     return (
-      <Host>
+      <Host class={{ vertical: this._config.orientation === 'vertical' }}>
         <slot name="top"/>
+        <slot name="left"/>
         <slot/>
+        <slot name="right"/>
         <slot name="bottom"/>
       </Host>
     );
@@ -0,0 +1,20 @@
+import { readUrlTab } from './url';
+
+
+describe('readUrlTab', () => {
+  it('reads the decoded hash', () => {
+    location.href = 'http://localhost/page#tab%20one';
+    expect(readUrlTab({ mode: 'hash' })).toBe('tab one');
+  });
+
+  it('returns undefined for a hash that is not encoded properly', () => {
+    location.href = 'http://localhost/page#%';
+    expect(readUrlTab({ mode: 'hash' })).toBeUndefined();
+  });
+
+  it('reads the query parameter', () => {
+    location.href = 'http://localhost/page?section=feed';
+    expect(readUrlTab({ mode: 'query', param: 'section' })).toBe('feed');
+    expect(readUrlTab({ mode: 'query' })).toBeUndefined();
+  });
+});
@@ -0,0 +1,47 @@
+import { SuperTabsUrlSync } from './interface';
+
+
+const defaultParam = 'tab';
+
+/**
+ * Returns the tab value stored in the URL, if any.
+ */
+export function readUrlTab(sync: SuperTabsUrlSync): string | undefined {
+  if (sync.mode === 'hash') {
+    const hash = location.hash.replace(/^#/, '');
+
+    try {
+      return hash ? decodeURIComponent(hash) : undefined;
+    } catch (e) {
+      // the hash is not a valid encoded value, e.g. `#%`, so it can't point to a tab
+      return undefined;
+    }
+  }
+
+  const value = new URLSearchParams(location.search).get(sync.param || defaultParam);
+  return value ? value : undefined;
+}
+
+/**
+ * Stores the tab value in the URL, keeping the rest of the URL as is.
+ * @param replace {boolean} whether to replace the current history entry, regardless of the `history` option
+ */
+export function writeUrlTab(sync: SuperTabsUrlSync, value: string, replace: boolean) {
+  if (readUrlTab(sync) === value) {
+    return;
+  }
+
+  const url = new URL(location.href);
+
+  if (sync.mode === 'hash') {
+    url.hash = encodeURIComponent(value);
+  } else {
+    url.searchParams.set(sync.param || defaultParam, value);
+  }
+
+  if (replace || sync.history === 'replace') {
+    history.replaceState(history.state, '', url.href);
+  } else {
+    history.pushState(history.state, '', url.href);
+  }
+}
@@ -1,4 +1,4 @@
-import { SuperTabsConfig } from './interface';
+import { SuperTabsConfig, SuperTabsEasing, SuperTabsEasingFunction, SuperTabsSpring } from './interface';
 
 
 export const DEFAULT_CONFIG: SuperTabsConfig = {
@@ -12,6 +12,19 @@ export const DEFAULT_CONFIG: SuperTabsConfig = {
   avoidElements: false,
   lazyLoad: false,
   unloadWhenInvisible: false,
+  pointerTypes: ['touch', 'pen', 'mouse'],
+  flingVelocity: 0.3,
+  multiTabFling: false,
+  multiTabFlingVelocity: 1,
+  keyboardActivation: 'automatic',
+  orientation: 'horizontal',
+  transitionEffect: 'slide',
+  renderMode: 'scroll',
+  lazyLoadDistance: 1,
+  keepAliveTabs: 0,
+  preloadWhenIdle: false,
+  persistStorage: 'session',
+  persistScroll: false,
 };
 
 export type STCoord = {
@@ -20,7 +33,7 @@ export type STCoord = {
 }
 
 export function pointerCoord(ev: any): STCoord {
-  // get X coordinates for either a mouse click
+  // get X coordinates for either a mouse click, a pointer event
   // or a touch depending on the given event
   if (ev) {
     const changedTouches = ev.changedTouches;
@@ -28,6 +41,9 @@ export function pointerCoord(ev: any): STCoord {
       const touch = changedTouches[0];
       return { x: touch.clientX, y: touch.clientY };
     }
+    if (ev.clientX !== undefined) {
+      return { x: ev.clientX, y: ev.clientY };
+    }
     if (ev.pageX !== undefined) {
       return { x: ev.pageX, y: ev.pageY };
     }
@@ -37,6 +53,54 @@ export function pointerCoord(ev: any): STCoord {
 
 const nativeScrollAvailable: boolean = 'scrollBehavior' in document.documentElement.style;
 
+export const pointerEventsAvailable: boolean = typeof window.PointerEvent === 'function';
+
+// ResizeObserver is missing from the DOM typings of the TypeScript version Stencil compiles with
+export const resizeObserverAvailable: boolean = typeof (window as any).ResizeObserver === 'function';
+
+/**
+ * Subset of the `ResizeObserver` API, which is not part of the DOM typings we compile against.
+ */
+export interface STResizeObserver {
+  observe(target: Element): void;
+  unobserve(target: Element): void;
+  disconnect(): void;
+}
+
+export interface STResizeObserverEntry {
+  target: Element;
+  contentRect: { width: number; height: number };
+}
+
+/**
+ * Returns a `ResizeObserver` that calls the callback whenever one of the observed elements changes size,
+ * or `undefined` if the browser doesn't support it.
+ */
+export function createResizeObserver(callback: (entries: STResizeObserverEntry[]) => void): STResizeObserver | undefined {
+  if (!resizeObserverAvailable) {
+    return;
+  }
+
+  return new (window as any).ResizeObserver(callback);
+}
+
+/**
+ * Runs the callback when the browser is idle, falling back to a timeout where `requestIdleCallback` is not available.
+ * Returns a function that cancels the callback.
+ */
+export function runWhenIdle(callback: () => void): () => void {
+  // requestIdleCallback is missing from the DOM typings of the TypeScript version Stencil compiles with
+  const w = window as any;
+
+  if (typeof w.requestIdleCallback === 'function') {
+    const handle = w.requestIdleCallback(callback);
+    return () => w.cancelIdleCallback(handle);
+  }
+
+  const timeout = setTimeout(callback, 200);
+  return () => clearTimeout(timeout);
+}
+
 let _getTs: () => number;
 
 if (window.performance && window.performance.now) {
@@ -49,46 +113,285 @@ export const getTs = _getTs;
 
 export const easeInOutCubic = (t: number) => t < 0.5 ? 4 * t * t * t : (t - 1) * (2 * t - 2) * (2 * t - 2) + 1;
 
-function getScrollCoord(start: number, dest: number, startTime: number, currentTime: number, duration: number) {
+/**
+ * Returns an easing function for the given cubic bezier control points.
+ */
+export function cubicBezier(x1: number, y1: number, x2: number, y2: number): SuperTabsEasingFunction {
+  const bezier = (t: number, p1: number, p2: number) => 3 * (1 - t) * (1 - t) * t * p1 + 3 * (1 - t) * t * t * p2 + t * t * t;
+  const bezierSlope = (t: number, p1: number, p2: number) => 3 * (1 - t) * (1 - t) * p1 + 6 * (1 - t) * t * (p2 - p1) + 3 * t * t * (1 - p2);
+
+  return (x: number) => {
+    if (x <= 0 || x >= 1) {
+      return x <= 0 ? 0 : 1;
+    }
+
+    // find the curve parameter for x using Newton's method, then fall back to bisection if it doesn't converge
+    let t = x;
+
+    for (let i = 0; i < 8; i++) {
+      const delta = bezier(t, x1, x2) - x;
+
+      if (Math.abs(delta) < 1e-6) {
+        return bezier(t, y1, y2);
+      }
+
+      const slope = bezierSlope(t, x1, x2);
+
+      if (Math.abs(slope) < 1e-6) {
+        break;
+      }
+
+      t -= delta / slope;
+    }
+
+    let min = 0, max = 1;
+    t = x;
+
+    for (let i = 0; i < 20; i++) {
+      if (bezier(t, x1, x2) < x) {
+        min = t;
+      } else {
+        max = t;
+      }
+
+      t = (min + max) / 2;
+    }
+
+    return bezier(t, y1, y2);
+  };
+}
+
+/**
+ * Returns an easing function that follows a damped spring.
+ * The spring is simulated until it settles, and the resulting curve is scaled to fit the transition duration.
+ */
+export function springEasing(spring: SuperTabsSpring): SuperTabsEasingFunction {
+  const stiffness = spring.stiffness || 170;
+  const damping = spring.damping || 26;
+  const mass = spring.mass || 1;
+
+  const w0 = Math.sqrt(stiffness / mass);
+  const zeta = damping / (2 * Math.sqrt(stiffness * mass));
+
+  let position: (time: number) => number;
+  let decayRate: number;
+
+  if (zeta < 1) {
+    const wd = w0 * Math.sqrt(1 - zeta * zeta);
+    position = (time) => 1 - Math.exp(-zeta * w0 * time) * (Math.cos(wd * time) + (zeta * w0 / wd) * Math.sin(wd * time));
+    decayRate = zeta * w0;
+  } else if (zeta === 1) {
+    position = (time) => 1 - Math.exp(-w0 * time) * (1 + w0 * time);
+    decayRate = w0;
+  } else {
+    const r1 = -w0 * (zeta - Math.sqrt(zeta * zeta - 1));
+    const r2 = -w0 * (zeta + Math.sqrt(zeta * zeta - 1));
+    position = (time) => 1 - (r2 * Math.exp(r1 * time) - r1 * Math.exp(r2 * time)) / (r2 - r1);
+    decayRate = -r1;
+  }
+
+  // time (in seconds) for the spring to get within 0.1% of its resting position
+  const settleTime = Math.log(1000) / decayRate;
+
+  return (t: number) => t >= 1 ? 1 : position(t * settleTime);
+}
+
+const namedEasings: { [name: string]: [number, number, number, number] } = {
+  linear: [0, 0, 1, 1],
+  ease: [0.25, 0.1, 0.25, 1],
+  easeIn: [0.42, 0, 1, 1],
+  easeOut: [0, 0, 0.58, 1],
+  easeInOut: [0.42, 0, 0.58, 1],
+  easeInOutCubic: [0.65, 0, 0.35, 1],
+  standard: [0.4, 0, 0.2, 1],
+};
+
+/**
+ * Returns the easing function to use for scroll animations.
+ */
+export function getEasing(config: SuperTabsConfig | undefined): SuperTabsEasingFunction {
+  const easing: SuperTabsEasing | undefined = config && config.transitionEasing;
+
+  if (typeof easing === 'function') {
+    return easing;
+  }
+
+  if (Array.isArray(easing)) {
+    return cubicBezier(easing[0], easing[1], easing[2], easing[3]);
+  }
+
+  if (typeof easing === 'object') {
+    return springEasing(easing);
+  }
+
+  if (typeof easing === 'string' && easing !== 'easeInOutCubic' && namedEasings[easing]) {
+    const points = namedEasings[easing];
+    return cubicBezier(points[0], points[1], points[2], points[3]);
+  }
+
+  return easeInOutCubic;
+}
+
+/**
+ * Returns the CSS timing function equivalent of the configured easing.
+ * Easing functions and springs can't be represented in CSS, in which case `undefined` is returned.
+ */
+export function getCSSEasing(config: SuperTabsConfig | undefined): string | undefined {
+  const easing: SuperTabsEasing | undefined = config && config.transitionEasing;
+  let points: number[] | undefined;
+
+  if (Array.isArray(easing)) {
+    points = easing;
+  } else if (typeof easing === 'string') {
+    points = namedEasings[easing];
+  }
+
+  return points ? `cubic-bezier(${points.join(', ')})` : undefined;
+}
+
+function getScrollCoord(start: number, dest: number, startTime: number, currentTime: number, duration: number, easing: SuperTabsEasingFunction) {
   const time = Math.min(1, (currentTime - startTime) / duration);
-  const timeFn = easeInOutCubic(time);
+  const timeFn = easing(time);
   return Math.ceil((timeFn * (dest - start)) + start);
 }
 
-function scroll(el: Element, startX: number, x: number, startTime: number, duration: number) {
-  const currentTime = getTs();
-  const scrollX = startX === x ? x : getScrollCoord(startX, x, startTime, currentTime, duration);
+function scrollElTo(el: Element, pos: number, vertical: boolean, rtl: boolean) {
+  if (vertical) {
+    el.scrollTo(0, pos);
+  } else {
+    el.scrollTo(toScrollLeft(el, pos, rtl), 0);
+  }
+}
 
-  el.scrollTo(scrollX, 0);
+/**
+ * Handle of a running scroll animation.
+ */
+export interface ScrollAnimation {
+  /**
+   * Resolves when the animation is done, or when it was cancelled.
+   */
+  finished: Promise<void>;
 
-  if (currentTime - startTime >= duration) {
-    return;
+  /**
+   * Stops the animation, leaving the element at its current scroll position.
+   */
+  cancel: () => void;
+}
+
+const runningAnimations: WeakMap<Element, ScrollAnimation> = new WeakMap();
+
+/**
+ * Cancels the animation started by `scrollEl` or `tweenEl` that is running on the element, if any.
+ * Returns `true` if an animation was cancelled.
+ */
+export function cancelScrollEl(el: Element): boolean {
+  const animation = runningAnimations.get(el);
+
+  if (!animation) {
+    return false;
   }
 
-  requestAnimationFrame(() => {
-    scroll(el, startX, x, startTime, duration);
-  });
+  animation.cancel();
+  return true;
 }
 
-export const scrollEl = (el: Element, x: number, native: boolean, duration: number = 300) => {
-  if (duration <= 0) {
-    requestAnimationFrame(() => {
-      el.scrollTo(x, 0);
+/**
+ * Registers a new animation for the element, cancelling the one that is already running.
+ * `run` starts the animation, calls `done` once it's finished, and returns a function that stops it.
+ */
+function startAnimation(el: Element, run: (done: () => void) => () => void): ScrollAnimation {
+  cancelScrollEl(el);
+
+  let resolve!: () => void;
+  let stop: (() => void) | undefined;
+
+  const done = () => {
+    if (runningAnimations.get(el) === animation) {
+      runningAnimations.delete(el);
+    }
+
+    resolve();
+  };
+
+  const animation: ScrollAnimation = {
+    finished: new Promise<void>((r) => resolve = r),
+    cancel: () => {
+      stop && stop();
+      done();
+    },
+  };
+
+  runningAnimations.set(el, animation);
+  stop = run(done);
+
+  return animation;
+}
+
+/**
+ * Animates a value on behalf of the element, calling `apply` with the current value on every frame.
+ * The start value is read on the first frame, so it reflects any change made in the meantime.
+ */
+export const tweenEl = (el: Element, getStart: () => number, end: number, duration: number, easing: SuperTabsEasingFunction, apply: (value: number) => void): ScrollAnimation => {
+  return startAnimation(el, (done) => {
+    let frame = requestAnimationFrame(() => {
+      const start = getStart();
+      const startTime = getTs();
+
+      const step = () => {
+        const currentTime = getTs();
+        const value = start === end || duration <= 0 ? end : getScrollCoord(start, end, startTime, currentTime, duration, easing);
+
+        apply(value);
+
+        if (currentTime - startTime >= duration) {
+          done();
+          return;
+        }
+
+        frame = requestAnimationFrame(step);
+      };
+
+      step();
     });
-    return;
-  }
 
-  if (native && nativeScrollAvailable) {
-    el.scrollTo({
-      left: x,
-      behavior: 'smooth',
+    return () => cancelAnimationFrame(frame);
+  });
+};
+
+/**
+ * Scrolls the element to the given position.
+ * Horizontal positions are measured from the start edge of the element, which is the right edge in right-to-left
+ * layouts.
+ *
+ * Any animation that is already running on the element is cancelled first.
+ */
+export const scrollEl = (el: Element, pos: number, native: boolean, duration: number = 300, vertical: boolean = false, easing: SuperTabsEasingFunction = easeInOutCubic): ScrollAnimation => {
+  const rtl = !vertical && isRTL(el);
+
+  if (duration > 0 && native && nativeScrollAvailable) {
+    return startAnimation(el, (done) => {
+      el.scrollTo(vertical ? {
+        top: pos,
+        behavior: 'smooth',
+      } : {
+        left: toScrollLeft(el, pos, rtl),
+        behavior: 'smooth',
+      });
+
+      // there is no reliable way to tell when a native smooth scroll is done
+      const timeout = setTimeout(done, duration);
+
+      return () => {
+        clearTimeout(timeout);
+
+        // scrolling to the current position stops the smooth scroll
+        el.scrollTo(el.scrollLeft, el.scrollTop);
+      };
     });
-    return;
   }
 
-  requestAnimationFrame(() => {
-    scroll(el, el.scrollLeft, x, getTs(), duration);
-  });
+  const getStart = () => vertical ? el.scrollTop : getScrollStart(el, rtl);
+  return tweenEl(el, getStart, pos, duration, easing, (value) => scrollElTo(el, value, vertical, rtl));
 };
 
 export function checkGesture(newCoords: STCoord, initialCoords: STCoord, config: SuperTabsConfig): boolean {
@@ -104,17 +407,92 @@ export function checkGesture(newCoords: STCoord, initialCoords: STCoord, config:
 
   if (distance >= config.dragThreshold!) {
     // swipe is long enough
-    // lets check the angle
+    // lets check the angle relative to the swipe axis
     const angle = Math.atan2(deltaY, deltaX);
-    const cosine = Math.cos(angle);
+    const cosine = config.orientation === 'vertical' ? Math.sin(angle) : Math.cos(angle);
     return Math.abs(cosine) > maxCosine;
   }
 
   return false;
 }
 
-export function getNormalizedScrollX(el: HTMLElement, width: number, delta: number = 0): number {
-  return Math.max(0, Math.min(el.scrollWidth - width, el.scrollLeft + delta))
+export function isRTL(el: Element): boolean {
+  return getComputedStyle(el).direction === 'rtl';
+}
+
+/**
+ * How browsers report `scrollLeft` for right-to-left elements:
+ * - `negative`: `0` at the start (right) edge, and negative values towards the left edge (spec behaviour)
+ * - `reverse`: `0` at the start (right) edge, and positive values towards the left edge
+ * - `default`: `0` at the left edge, like in left-to-right elements
+ */
+type RTLScrollType = 'negative' | 'reverse' | 'default';
+
+let rtlScrollType: RTLScrollType | undefined;
+
+function getRTLScrollType(): RTLScrollType {
+  if (rtlScrollType) {
+    return rtlScrollType;
+  }
+
+  const el = document.createElement('div');
+  const content = document.createElement('div');
+  el.dir = 'rtl';
+  el.style.cssText = 'position: absolute; top: -1000px; width: 4px; height: 1px; overflow: scroll; visibility: hidden;';
+  content.style.cssText = 'width: 8px; height: 1px;';
+  el.appendChild(content);
+  document.body.appendChild(el);
+
+  if (el.scrollLeft > 0) {
+    rtlScrollType = 'default';
+  } else {
+    el.scrollLeft = 1;
+    rtlScrollType = el.scrollLeft === 0 ? 'negative' : 'reverse';
+  }
+
+  document.body.removeChild(el);
+
+  return rtlScrollType;
+}
+
+/**
+ * Returns the horizontal scroll position of the element, measured from its start edge.
+ */
+export function getScrollStart(el: Element, rtl: boolean): number {
+  if (!rtl) {
+    return el.scrollLeft;
+  }
+
+  switch (getRTLScrollType()) {
+    case 'negative':
+      return -el.scrollLeft;
+    case 'default':
+      return el.scrollWidth - el.clientWidth - el.scrollLeft;
+    default:
+      return el.scrollLeft;
+  }
+}
+
+/**
+ * Converts a scroll position measured from the start edge of the element to a `scrollLeft` value.
+ */
+export function toScrollLeft(el: Element, position: number, rtl: boolean): number {
+  if (!rtl) {
+    return position;
+  }
+
+  switch (getRTLScrollType()) {
+    case 'negative':
+      return -position;
+    case 'default':
+      return el.scrollWidth - el.clientWidth - position;
+    default:
+      return position;
+  }
+}
+
+export function getNormalizedScrollX(el: HTMLElement, width: number, delta: number = 0, rtl: boolean = false): number {
+  return Math.max(0, Math.min(el.scrollWidth - width, getScrollStart(el, rtl) + delta))
 }
 
 const debugStyle1 = 'background: linear-gradient(135deg,#4150b2,#f71947); border: 1px solid #9a9a9a; color: #ffffff; border-bottom-left-radius: 2px; border-top-left-radius: 2px; padding: 2px 0 2px 4px;';
@@ -2,6 +2,7 @@ import { angularOutputTarget } from '@stencil/angular-output-target';
 import { Config } from '@stencil/core';
 import { reactOutputTarget } from '@stencil/react-output-target';
 import { sass } from '@stencil/sass';
+import { vueOutputTarget } from '@stencil/vue-output-target';
 
 
 export const config: Config = {
@@ -40,6 +41,17 @@ export const config: Config = {
     reactOutputTarget({
       componentCorePackage: '@ionic-super-tabs/core',
       proxiesFile: '../react/src/components.ts',
+      includePolyfills: true,
+      includeDefineCustomElements: true,
+      excludeComponents: [
+        'super-tab-indicator',
+      ],
+    }),
+    vueOutputTarget({
+      componentCorePackage: '@ionic-super-tabs/core',
+      proxiesFile: '../vue/src/components.ts',
+      includePolyfills: true,
+      includeDefineCustomElements: true,
       excludeComponents: [
         'super-tab-indicator',
       ],
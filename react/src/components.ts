@@ -5,7 +5,7 @@ import { createReactComponent } from './react-component-lib';
 
 import { JSX } from '@ionic-super-tabs/core';
 
-import { defineCustomElements, applyPolyfills } from '@ionic-super-tabs/core/loader';
+import { applyPolyfills, defineCustomElements } from '@ionic-super-tabs/core/loader';
 
 applyPolyfills().then(() => defineCustomElements());
 export const SuperTab = /*@__PURE__*/createReactComponent<JSX.SuperTab, HTMLSuperTabElement>('super-tab');
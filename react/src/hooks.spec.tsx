@@ -0,0 +1,84 @@
+import React from 'react';
+import ReactDOM from 'react-dom';
+import { act } from 'react-dom/test-utils';
+
+import { SuperTabs } from './components';
+import { SuperTabsControls, useSuperTabs } from './hooks';
+import { LazySuperTab } from './lazySuperTab';
+import { useSuperTabsRouter } from './router';
+
+jest.mock('@ionic-super-tabs/core/loader', () => ({
+  applyPolyfills: () => Promise.resolve(),
+  defineCustomElements: (): void => undefined,
+}));
+
+function mount(ui: React.ReactElement): HTMLElement {
+  const container = document.body.appendChild(document.createElement('div'));
+
+  act(() => {
+    ReactDOM.render(ui, container);
+  });
+
+  return container;
+}
+
+describe('useSuperTabs', () => {
+  it('gets the super-tabs element through the ref', async () => {
+    let tabs: SuperTabsControls | undefined;
+
+    const App = () => {
+      tabs = useSuperTabs();
+      return <SuperTabs ref={tabs.ref} />;
+    };
+
+    const el = mount(<App />).querySelector('super-tabs') as HTMLSuperTabsElement;
+
+    expect(tabs!.ref.current).toBe(el);
+
+    el.selectTab = jest.fn(() => Promise.resolve());
+    await tabs!.selectTab(1);
+    expect(el.selectTab).toHaveBeenCalledWith(1, undefined, undefined);
+  });
+});
+
+describe('useSuperTabsRouter', () => {
+  it('selects the tab of the current location', () => {
+    const selectTabById = jest.fn(() => Promise.resolve());
+    const history = {
+      location: { pathname: '/tabs/feed' },
+      push: jest.fn(),
+      replace: jest.fn(),
+      listen: () => (): void => undefined,
+    };
+
+    // the element is not upgraded in jsdom, provide the method the router calls
+    (HTMLElement.prototype as any).selectTabById = selectTabById;
+
+    const App = () => {
+      const tabs = useSuperTabs();
+      useSuperTabsRouter(tabs, { history, basePath: '/tabs' });
+      return <SuperTabs ref={tabs.ref} />;
+    };
+
+    mount(<App />);
+    delete (HTMLElement.prototype as any).selectTabById;
+
+    expect(selectTabById).toHaveBeenCalledWith('feed', false, false);
+  });
+});
+
+describe('LazySuperTab', () => {
+  it('renders its children once the tab is loaded', async () => {
+    const container = mount(<LazySuperTab noScroll={false}><p>content</p></LazySuperTab>);
+
+    expect(container.querySelector('p')).toBeNull();
+
+    await act(async () => {
+      container.querySelector('super-tab')!.setAttribute('loaded', '');
+      // let the mutation observer run
+      await new Promise((resolve) => setTimeout(resolve));
+    });
+
+    expect(container.querySelector('p')).not.toBeNull();
+  });
+});
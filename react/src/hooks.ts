@@ -0,0 +1,111 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+
+import { SuperTabChangeEventDetail } from '@ionic-super-tabs/core';
+
+export interface UseSuperTabsOptions {
+  /**
+   * Called when the active tab changes, with the detail of the `tabChange` event.
+   */
+  onTabChange?: (detail: SuperTabChangeEventDetail) => void;
+}
+
+export interface SuperTabsControls {
+  /**
+   * Ref to pass to the `SuperTabs` component.
+   */
+  ref: React.RefObject<HTMLSuperTabsElement>;
+
+  /**
+   * Index of the active tab.
+   */
+  activeTabIndex: number;
+
+  /**
+   * `tabId` of the active tab, if it has one.
+   */
+  activeTabId?: string;
+
+  selectTab: (index: number, animate?: boolean, emit?: boolean) => Promise<void>;
+  selectTabById: (tabId: string, animate?: boolean, emit?: boolean) => Promise<void>;
+}
+
+/**
+ * Tracks the active tab of a `SuperTabs` component and exposes its methods.
+ *
+ * ```tsx
+ * const tabs = useSuperTabs({ onTabChange: (detail) => console.log(detail.index) });
+ *
+ * <SuperTabs ref={tabs.ref}>...</SuperTabs>
+ * <button onClick={() => tabs.selectTab(0)}>First tab</button>
+ * ```
+ */
+export function useSuperTabs(options: UseSuperTabsOptions = {}): SuperTabsControls {
+  const ref = useRef<HTMLSuperTabsElement>(null);
+  const [activeTabIndex, setActiveTabIndex] = useState(0);
+  const [activeTabId, setActiveTabId] = useState<string | undefined>(undefined);
+
+  // keep the latest callback without subscribing to the event again on every render
+  const onTabChange = useRef(options.onTabChange);
+  onTabChange.current = options.onTabChange;
+
+  useEffect(() => {
+    const el = ref.current;
+
+    if (!el) {
+      return undefined;
+    }
+
+    const update = () => {
+      setActiveTabIndex(el.activeTabIndex);
+      setActiveTabId(el.activeTabId);
+    };
+
+    const listener = (ev: Event) => {
+      onTabChange.current && onTabChange.current((ev as CustomEvent<SuperTabChangeEventDetail>).detail);
+    };
+
+    // the active tab is reflected to attributes, which also covers changes that don't emit `tabChange`
+    const observer = new MutationObserver(update);
+    observer.observe(el, { attributes: true, attributeFilter: ['active-tab-index', 'active-tab-id'] });
+    el.addEventListener('tabChange', listener);
+    update();
+
+    return () => {
+      observer.disconnect();
+      el.removeEventListener('tabChange', listener);
+    };
+  }, []);
+
+  const selectTab = useCallback((index: number, animate?: boolean, emit?: boolean) => {
+    return ref.current ? ref.current.selectTab(index, animate, emit) : Promise.resolve();
+  }, []);
+
+  const selectTabById = useCallback((tabId: string, animate?: boolean, emit?: boolean) => {
+    return ref.current ? ref.current.selectTabById(tabId, animate, emit) : Promise.resolve();
+  }, []);
+
+  return { ref, activeTabIndex, activeTabId, selectTab, selectTabById };
+}
+
+/**
+ * Returns whether the tab is loaded, and updates when the tab is loaded or unloaded.
+ */
+export function useSuperTabLoaded(ref: React.RefObject<HTMLSuperTabElement>): boolean {
+  const [loaded, setLoaded] = useState(false);
+
+  useEffect(() => {
+    const el = ref.current;
+
+    if (!el) {
+      return undefined;
+    }
+
+    const observer = new MutationObserver(() => setLoaded(el.hasAttribute('loaded')));
+    observer.observe(el, { attributes: true, attributeFilter: ['loaded'] });
+    setLoaded(el.hasAttribute('loaded'));
+
+    return () => observer.disconnect();
+  }, [ref]);
+
+  return loaded;
+}
@@ -1 +1,11 @@
 export * from './components';
+export * from './hooks';
+export * from './lazySuperTab';
+export * from './router';
+export {
+  SuperTabBeforeChangeEventDetail,
+  SuperTabChangeEventDetail,
+  SuperTabChangeSource,
+  SuperTabItem,
+  SuperTabsConfig,
+} from '@ionic-super-tabs/core';
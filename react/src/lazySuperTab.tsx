@@ -0,0 +1,37 @@
+import React, { Suspense, useRef } from 'react';
+
+import { JSX } from '@ionic-super-tabs/core';
+
+import { SuperTab } from './components';
+import { useSuperTabLoaded } from './hooks';
+
+export type LazySuperTabProps = JSX.SuperTab & React.HTMLAttributes<HTMLSuperTabElement> & {
+  /**
+   * Rendered while the lazy content is loading.
+   */
+  fallback?: React.ReactNode;
+};
+
+/**
+ * A `SuperTab` that only renders its children while the tab is loaded, inside a `Suspense` boundary.
+ *
+ * Combined with `lazyLoad` and `React.lazy`, the code of a tab is only fetched when the tab is about to be shown.
+ *
+ * ```tsx
+ * const Feed = React.lazy(() => import('./Feed'));
+ *
+ * <LazySuperTab fallback={<Spinner />}>
+ *   <Feed />
+ * </LazySuperTab>
+ * ```
+ */
+export const LazySuperTab: React.FC<LazySuperTabProps> = ({ children, fallback, ...props }) => {
+  const ref = useRef<HTMLSuperTabElement>(null);
+  const loaded = useSuperTabLoaded(ref);
+
+  return (
+    <SuperTab {...props} ref={ref}>
+      {loaded ? <Suspense fallback={fallback || null}>{children}</Suspense> : null}
+    </SuperTab>
+  );
+};
@@ -1,3 +1,2 @@
 export { createReactComponent } from './createComponent';
-export { createControllerComponent } from './createControllerComponent';
 export { createOverlayComponent } from './createOverlayComponent';
@@ -0,0 +1,113 @@
+import { useEffect } from 'react';
+
+import { SuperTabChangeEventDetail } from '@ionic-super-tabs/core';
+
+import { SuperTabsControls } from './hooks';
+
+/**
+ * Subset of the `history` object used by React Router, as returned by `useHistory()`.
+ */
+export interface SuperTabsHistory {
+  location: { pathname: string };
+  push: (path: string) => void;
+  replace: (path: string) => void;
+  listen: (listener: (location: { pathname: string }) => void) => () => void;
+}
+
+export interface UseSuperTabsRouterOptions {
+  history: SuperTabsHistory;
+
+  /**
+   * Path of the page that renders the tabs, e.g. `/tabs`. The path of every tab is `basePath` followed by its `tabId`.
+   */
+  basePath: string;
+}
+
+const trimSlashes = (path: string) => path.replace(/^\/+|\/+$/g, '');
+
+/**
+ * Returns the `tabId` in the path, or `undefined` if the path doesn't point to a tab.
+ */
+function getPathTabId(pathname: string, basePath: string): string | undefined {
+  const base = trimSlashes(basePath);
+  const path = trimSlashes(pathname);
+
+  if (base && path !== base && path.indexOf(base + '/') !== 0) {
+    return undefined;
+  }
+
+  const tabId = path.substring(base.length).split('/').filter(Boolean)[0];
+  return tabId || undefined;
+}
+
+function getTabPath(tabId: string, basePath: string): string {
+  const base = trimSlashes(basePath);
+  return '/' + (base ? base + '/' : '') + tabId;
+}
+
+/**
+ * Keeps the active tab in sync with the location of React Router.
+ *
+ * Selecting a tab pushes its path, and navigating to the path of a tab, e.g. with a deep link or the browser back and
+ * forward buttons, selects it. Tabs are matched by their `tabId`.
+ *
+ * ```tsx
+ * const tabs = useSuperTabs();
+ * useSuperTabsRouter(tabs, { history: useHistory(), basePath: '/tabs' });
+ * ```
+ */
+export function useSuperTabsRouter(tabs: SuperTabsControls, options: UseSuperTabsRouterOptions) {
+  const { history, basePath } = options;
+  const { ref } = tabs;
+
+  // location to tab
+  useEffect(() => {
+    const el = ref.current;
+
+    if (!el) {
+      return undefined;
+    }
+
+    const sync = async (location: { pathname: string }, animate: boolean) => {
+      const tabId = getPathTabId(location.pathname, basePath);
+
+      if (!tabId || tabId === el.activeTabId) {
+        return;
+      }
+
+      await el.selectTabById(tabId, animate, false);
+
+      if (el.activeTabId && el.activeTabId !== tabId) {
+        // the tab guards kept the current tab, point the location back to it
+        history.replace(getTabPath(el.activeTabId, basePath));
+      }
+    };
+
+    sync(history.location, false);
+
+    return history.listen((location) => sync(location, true));
+  }, [ref, history, basePath]);
+
+  // tab to location
+  useEffect(() => {
+    const el = ref.current;
+
+    if (!el) {
+      return undefined;
+    }
+
+    const listener = (ev: Event) => {
+      const detail = (ev as CustomEvent<SuperTabChangeEventDetail>).detail;
+
+      if (!detail.changed || !detail.tabId || detail.tabId === getPathTabId(history.location.pathname, basePath)) {
+        return;
+      }
+
+      history.push(getTabPath(detail.tabId, basePath));
+    };
+
+    el.addEventListener('tabChange', listener);
+
+    return () => el.removeEventListener('tabChange', listener);
+  }, [ref, history, basePath]);
+}
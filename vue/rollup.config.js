@@ -0,0 +1,32 @@
+// borrowed from https://github.com/ionic-team/ionic/blob/930b271a4abf680b08e6755644cece4b95053f15/packages/react/rollup.config.js
+
+import resolve from 'rollup-plugin-node-resolve';
+import sourcemaps from 'rollup-plugin-sourcemaps';
+
+// the router helper has its own entry point, so that apps without vue-router can use the components
+const entry = (name) => ({
+  input: `dist-transpiled/${name}.js`,
+  output: [
+    {
+      file: `dist/${name}.esm.js`,
+      format: 'es',
+      sourcemap: true
+    },
+    {
+      file: `dist/${name}.js`,
+      format: 'commonjs',
+      preferConst: true,
+      sourcemap: true
+    }
+  ],
+  external: (id) => !/^(\.|\/)/.test(id),
+  plugins: [
+    resolve(),
+    sourcemaps()
+  ]
+});
+
+export default [
+  entry('index'),
+  entry('router'),
+];
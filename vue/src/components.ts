@@ -0,0 +1,70 @@
+/* eslint-disable */
+/* tslint:disable */
+/* auto-generated vue proxies */
+import { defineContainer } from './vue-component-lib/utils';
+
+import { JSX } from '@ionic-super-tabs/core';
+
+import { applyPolyfills, defineCustomElements } from '@ionic-super-tabs/core/loader';
+
+applyPolyfills().then(() => defineCustomElements());
+
+export const SuperTab = /*@__PURE__*/ defineContainer<JSX.SuperTab>('super-tab', [
+  'noScroll',
+  'tabId',
+  'canEnter',
+  'canLeave',
+  'preload',
+  'keepAlive',
+  'active',
+  'labelledBy',
+  'loaded',
+  'visible',
+  'tabWillEnter',
+  'tabDidEnter',
+  'tabWillLeave',
+  'tabDidLeave',
+  'tabWillUnload'
+]);
+
+
+export const SuperTabButton = /*@__PURE__*/ defineContainer<JSX.SuperTabButton>('super-tab-button', [
+  'active',
+  'index',
+  'tabId',
+  'disabled',
+  'scrollableContainer',
+  'focusTarget',
+  'controls'
+]);
+
+
+export const SuperTabs = /*@__PURE__*/ defineContainer<JSX.SuperTabs>('super-tabs', [
+  'config',
+  'activeTabIndex',
+  'activeTabId',
+  'items',
+  'persistKey',
+  'tabChange',
+  'beforeTabChange'
+]);
+
+
+export const SuperTabsContainer = /*@__PURE__*/ defineContainer<JSX.SuperTabsContainer>('super-tabs-container', [
+  'config',
+  'swipeEnabled',
+  'autoScrollTop',
+  'activeTabIndexChange',
+  'selectedTabIndexChange'
+]);
+
+
+export const SuperTabsToolbar = /*@__PURE__*/ defineContainer<JSX.SuperTabsToolbar>('super-tabs-toolbar', [
+  'config',
+  'showIndicator',
+  'color',
+  'scrollable',
+  'scrollablePadding',
+  'buttonClick'
+]);
+
@@ -0,0 +1,9 @@
+export * from './components';
+export { SuperTabs, SuperTabsModelProps } from './superTabs';
+export {
+  SuperTabBeforeChangeEventDetail,
+  SuperTabChangeEventDetail,
+  SuperTabChangeSource,
+  SuperTabItem,
+  SuperTabsConfig,
+} from '@ionic-super-tabs/core';
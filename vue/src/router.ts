@@ -0,0 +1,79 @@
+import { Ref, ref, watch } from 'vue';
+import { useRoute, useRouter } from 'vue-router';
+
+export interface UseSuperTabsRouteOptions {
+  /**
+   * Path of the page that renders the tabs, e.g. `/tabs`. The path of every tab is `basePath` followed by its `tabId`.
+   */
+  basePath: string;
+}
+
+const trimSlashes = (path: string) => path.replace(/^\/+|\/+$/g, '');
+
+/**
+ * Returns the `tabId` in the path, or `undefined` if the path doesn't point to a tab.
+ */
+function getPathTabId(pathname: string, basePath: string): string | undefined {
+  const base = trimSlashes(basePath);
+  const path = trimSlashes(pathname);
+
+  if (base && path !== base && path.indexOf(base + '/') !== 0) {
+    return undefined;
+  }
+
+  const tabId = path.substring(base.length).split('/').filter(Boolean)[0];
+  return tabId || undefined;
+}
+
+function getTabPath(tabId: string, basePath: string): string {
+  const base = trimSlashes(basePath);
+  return '/' + (base ? base + '/' : '') + tabId;
+}
+
+/**
+ * Returns the `tabId` of the active tab, kept in sync with the location of Vue Router.
+ *
+ * Bind it with `v-model:activeTabId`. Selecting a tab pushes its path, and navigating to the path of a tab, e.g. with
+ * a deep link or the browser back and forward buttons, selects it. When a navigation guard rejects the navigation,
+ * the previous tab is selected again.
+ *
+ * ```vue
+ * <super-tabs v-model:activeTabId="activeTabId">...</super-tabs>
+ *
+ * import { useSuperTabsRoute } from '@ionic-super-tabs/vue/router';
+ *
+ * setup() {
+ *   return { activeTabId: useSuperTabsRoute({ basePath: '/tabs' }) };
+ * }
+ * ```
+ */
+export function useSuperTabsRoute(options: UseSuperTabsRouteOptions): Ref<string | undefined> {
+  const router = useRouter();
+  const route = useRoute();
+  const activeTabId = ref<string | undefined>(getPathTabId(route.path, options.basePath));
+
+  // location to tab
+  watch(() => route.path, (path) => {
+    const tabId = getPathTabId(path, options.basePath);
+
+    if (tabId) {
+      activeTabId.value = tabId;
+    }
+  });
+
+  // tab to location
+  watch(activeTabId, async (tabId, previousTabId) => {
+    if (!tabId || tabId === getPathTabId(route.path, options.basePath)) {
+      return;
+    }
+
+    const failure = await router.push(getTabPath(tabId, options.basePath));
+
+    if (failure) {
+      // a navigation guard rejected the navigation
+      activeTabId.value = previousTabId;
+    }
+  });
+
+  return activeTabId;
+}
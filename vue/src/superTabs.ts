@@ -0,0 +1,77 @@
+import { ComponentPublicInstance, DefineComponent, defineComponent, h, mergeProps, ref, watch } from 'vue';
+
+import { JSX } from '@ionic-super-tabs/core';
+
+import { SuperTabs as SuperTabsElement } from './components';
+
+export interface SuperTabsModelProps {
+  /**
+   * Index of the active tab, bound with `v-model`.
+   */
+  modelValue?: number;
+}
+
+/**
+ * The `super-tabs` component.
+ *
+ * Supports `v-model` for the index of the active tab, and `v-model:activeTabId` for the `tabId` of the active tab.
+ * Changing either of them selects the matching tab. The model always follows the active tab of the element, so it is
+ * set back when a guard keeps the current tab.
+ */
+export const SuperTabs = /*@__PURE__*/defineComponent({
+  name: 'super-tabs',
+  props: {
+    modelValue: Number,
+    activeTabId: String,
+  },
+  emits: {
+    'update:modelValue': (_index: number) => true,
+    'update:activeTabId': (_tabId: string | undefined) => true,
+  },
+  setup(props, { attrs, slots, emit }) {
+    const containerRef = ref<ComponentPublicInstance>();
+    const getEl = () => containerRef.value ? containerRef.value.$el as HTMLSuperTabsElement : undefined;
+
+    const updateModel = () => {
+      const el = getEl()!;
+
+      if (el.activeTabIndex !== props.modelValue) {
+        emit('update:modelValue', el.activeTabIndex);
+      }
+
+      if (el.activeTabId !== props.activeTabId) {
+        emit('update:activeTabId', el.activeTabId);
+      }
+    };
+
+    watch(() => props.modelValue, async (index) => {
+      const el = getEl();
+
+      if (el && typeof index === 'number' && index !== el.activeTabIndex) {
+        await el.selectTab(index, true, false);
+        updateModel();
+      }
+    });
+
+    watch(() => props.activeTabId, async (tabId) => {
+      const el = getEl();
+
+      if (el && tabId && tabId !== el.activeTabId) {
+        await el.selectTabById(tabId, true, false);
+        updateModel();
+      }
+    });
+
+    // the model only sets the initial tab, later changes go through `selectTab` so that the guards run
+    const initialProps: any = { activeTabId: props.activeTabId };
+
+    if (typeof props.modelValue === 'number') {
+      initialProps.activeTabIndex = props.modelValue;
+    }
+
+    return () => h(SuperTabsElement, mergeProps(attrs, initialProps, {
+      ref: containerRef,
+      onTabChange: updateModel,
+    }), slots);
+  },
+}) as unknown as DefineComponent<JSX.SuperTabs & SuperTabsModelProps>;
@@ -0,0 +1,55 @@
+import { DefineComponent, defineComponent, h, onBeforeUnmount, onMounted, Ref, ref } from 'vue';
+
+/**
+ * Re-emits the custom events of the element as Vue events with the same name.
+ *
+ * Vue doesn't listen to camelCase custom events like `tabChange` on its own, since it normalizes event names.
+ */
+export function useElementEvents(el: Ref<HTMLElement | undefined>, events: string[], emit: (event: string, ...args: any[]) => void) {
+  const listeners = events.map((event) => ({ event, listener: (ev: Event) => emit(event, ev) }));
+
+  onMounted(() => {
+    listeners.forEach(({ event, listener }) => el.value!.addEventListener(event, listener));
+  });
+
+  onBeforeUnmount(() => {
+    listeners.forEach(({ event, listener }) => {
+      if (el.value) {
+        el.value.removeEventListener(event, listener);
+      }
+    });
+  });
+}
+
+/**
+ * Creates a Vue component that renders the custom element.
+ *
+ * The generated `componentProps` list both the props and the events of the element. Props are always set as
+ * properties of the element, since it may not be defined yet when Vue creates it and Vue would otherwise set
+ * objects like `config` as attributes. Events of the element are emitted as Vue events with the same name.
+ */
+export const defineContainer = <Props>(name: string, componentProps: string[] = []) => {
+  const Container = defineComponent({
+    name,
+    props: componentProps,
+    emits: componentProps,
+    setup(props: any, { attrs, slots, emit }) {
+      const elRef = ref<HTMLElement>();
+      useElementEvents(elRef, componentProps, emit);
+
+      return () => {
+        const elProps: any = { ...attrs, ref: elRef };
+
+        componentProps.forEach((prop) => {
+          if (props[prop] !== undefined) {
+            elProps[`.${prop}`] = props[prop];
+          }
+        });
+
+        return h(name, elProps, slots.default && slots.default());
+      };
+    },
+  });
+
+  return Container as unknown as DefineComponent<Props>;
+};